@@ -0,0 +1,9 @@
+import { DataImport } from "@/components/data/DataImport";
+
+export default function PriceData() {
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <DataImport />
+    </main>
+  );
+}
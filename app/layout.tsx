@@ -25,6 +25,11 @@ export default function RootLayout({
               <LineChart className="h-6 w-6" />
               <span>Trading Strategy Simulator</span>
             </Link>
+            <nav className="ml-auto flex items-center gap-6 text-sm">
+              <Link href="/" className="text-muted-foreground hover:text-foreground">Strategies</Link>
+              <Link href="/watchlists" className="text-muted-foreground hover:text-foreground">Watchlists</Link>
+              <Link href="/data" className="text-muted-foreground hover:text-foreground">Price Data</Link>
+            </nav>
           </div>
         </div>
         {children}
@@ -0,0 +1,9 @@
+import { Watchlists } from "@/components/watchlists/Watchlists";
+
+export default function WatchlistsPage() {
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <Watchlists />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import { SharedWatchlist } from "@/components/watchlists/SharedWatchlist";
+
+export default function SharedWatchlistPage({ params }: { params: { token: string } }) {
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <SharedWatchlist token={params.token} />
+    </main>
+  );
+}
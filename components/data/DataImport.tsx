@@ -0,0 +1,328 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, Loader2, Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { deleteImportedData, getImportedSymbols, importPriceData } from "@/lib/api";
+import { DataImportIssue, DataImportOptions, ImportedSymbol } from "@/types";
+
+// Bar fields a file's columns can be mapped to
+const columnFields = ["date", "open", "high", "low", "close", "volume", "symbol"] as const;
+
+const formSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  symbol: z.string().optional(),
+  dateFormat: z.string().optional(),
+  delimiter: z.string().max(1, "The delimiter must be a single character").optional(),
+  mode: z.enum(["merge", "replace"]),
+  columns: z.object(
+    Object.fromEntries(columnFields.map(field => [field, z.string().optional()])) as Record<
+      typeof columnFields[number],
+      z.ZodOptional<z.ZodString>
+    >
+  ),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Drop blank options so the server applies its defaults
+function toImportOptions(values: FormValues): DataImportOptions {
+  const columns = Object.fromEntries(
+    Object.entries(values.columns).filter(([, column]) => column && column.trim() !== "")
+  );
+
+  return {
+    format: values.format,
+    mode: values.mode,
+    symbol: values.symbol?.trim() || undefined,
+    dateFormat: values.dateFormat?.trim() || undefined,
+    delimiter: values.delimiter || undefined,
+    columns,
+  };
+}
+
+export function DataImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<DataImportIssue[]>([]);
+  const [imported, setImported] = useState<ImportedSymbol[]>([]);
+  const [symbols, setSymbols] = useState<ImportedSymbol[]>([]);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      format: "csv",
+      symbol: "",
+      dateFormat: "yyyy-MM-dd",
+      delimiter: ",",
+      mode: "merge",
+      columns: {},
+    },
+  });
+
+  const refreshSymbols = async () => {
+    try {
+      setSymbols(await getImportedSymbols());
+    } catch (err) {
+      setError("Failed to load imported symbols. The server might not be running.");
+    }
+  };
+
+  useEffect(() => {
+    refreshSymbols();
+  }, []);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (selected?.name.toLowerCase().endsWith(".json")) {
+      form.setValue("format", "json");
+    } else if (selected) {
+      form.setValue("format", "csv");
+    }
+  };
+
+  const onSubmit = async (values: FormValues) => {
+    if (!file) {
+      setError("Choose a file to import");
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError(null);
+      setIssues([]);
+      setImported([]);
+
+      setImported(await importPriceData(await file.text(), toImportOptions(values)));
+      await refreshSymbols();
+    } catch (err: any) {
+      const data = err?.response?.data;
+      setError(data?.message || "Failed to import the file");
+      setIssues(data?.issues || []);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (symbol: string) => {
+    try {
+      await deleteImportedData(symbol);
+      await refreshSymbols();
+    } catch (err) {
+      setError(`Failed to delete the data for ${symbol}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Price Data</CardTitle>
+          <CardDescription>
+            Upload end-of-day OHLCV bars as CSV or JSON. Simulations use imported bars for any symbol that has them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormItem>
+                <FormLabel>File</FormLabel>
+                <Input
+                  type="file"
+                  accept=".csv,.json,.txt"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                />
+              </FormItem>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Format</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="csv">CSV</SelectItem>
+                          <SelectItem value="json">JSON (array of bars)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="symbol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Symbol</FormLabel>
+                      <FormControl>
+                        <Input placeholder="AAPL" {...field} />
+                      </FormControl>
+                      <FormDescription>Symbol for every row, unless the file has a symbol column</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="dateFormat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date Format</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>date-fns pattern, e.g. yyyy-MM-dd or MM/dd/yyyy</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="delimiter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CSV Delimiter</FormLabel>
+                      <FormControl>
+                        <Input maxLength={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="mode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Existing Data</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="merge">Merge, replacing overlapping dates</SelectItem>
+                          <SelectItem value="replace">Replace all bars</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium mb-1">Column Mapping</h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Leave a field blank when its column is named after it (case-insensitive). Volume and symbol are optional.
+                </p>
+                <div className="grid gap-4 md:grid-cols-4">
+                  {columnFields.map(columnField => (
+                    <FormField
+                      key={columnField}
+                      control={form.control}
+                      name={`columns.${columnField}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="capitalize">{columnField}</FormLabel>
+                          <FormControl>
+                            <Input placeholder={columnField} {...field} value={field.value || ""} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {error && (
+                <div className="p-4 border border-red-200 rounded-md bg-red-50 text-sm text-red-500 space-y-1">
+                  <div className="flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                    {error}
+                  </div>
+                  {issues.map(issue => (
+                    <div key={issue.row} className="pl-6">Row {issue.row}: {issue.message}</div>
+                  ))}
+                </div>
+              )}
+
+              {imported.length > 0 && (
+                <div className="p-4 border border-green-200 rounded-md bg-green-50 text-sm text-green-700">
+                  Imported {imported.map(entry => entry.symbol).join(", ")}
+                </div>
+              )}
+
+              <Button type="submit" disabled={importing}>
+                {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Imported Symbols</CardTitle>
+          <CardDescription>Symbols without imported data use generated data.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {symbols.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No data has been imported yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left font-medium p-2">Symbol</th>
+                    <th className="text-left font-medium p-2">First Bar</th>
+                    <th className="text-left font-medium p-2">Last Bar</th>
+                    <th className="text-right font-medium p-2">Bars</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {symbols.map(entry => (
+                    <tr key={entry.symbol} className="border-b hover:bg-muted/50">
+                      <td className="p-2 font-medium">{entry.symbol}</td>
+                      <td className="p-2">{entry.firstDate || "—"}</td>
+                      <td className="p-2">{entry.lastDate || "—"}</td>
+                      <td className="p-2 text-right">{entry.bars}</td>
+                      <td className="p-2 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.symbol)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
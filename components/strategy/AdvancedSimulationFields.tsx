@@ -0,0 +1,641 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Control, FieldPath, useFormContext, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getMarketDataProviders, getWatchlists } from "@/lib/api";
+import { advancedSimulationConfig } from "@/lib/simulationConfig";
+import { Watchlist } from "@/types";
+
+// The part of a strategy form's values these fields edit
+export type AdvancedSimulationFormValues = {
+  simulationConfig: z.infer<typeof advancedSimulationConfig>;
+};
+
+type SimulationConfigValues = AdvancedSimulationFormValues["simulationConfig"];
+
+// A number setting shown for some option, by its name within a settings object
+type NumberFieldOption<T> = {
+  name: Exclude<keyof T, symbol | number>;
+  label: string;
+  description: string;
+  allowNegative?: boolean;
+};
+
+const universeOptions = [
+  { value: "symbols", label: "Symbols list" },
+  { value: "watchlist", label: "A watchlist" },
+  { value: "all", label: "Every symbol the market data provider serves" },
+];
+
+const fillModelOptions = [
+  { value: "nextBarOpen", label: "Next bar open" },
+  { value: "nextBarVwap", label: "Next bar VWAP (approx.)" },
+  { value: "sameBarClose", label: "Same bar close" },
+];
+
+const slippageModelOptions = [
+  { value: "fixed", label: "Fixed" },
+  { value: "volatility", label: "Scaled by volatility" },
+];
+
+const sizingModelOptions = [
+  { value: "percentOfInitialCapital", label: "Percent of initial capital" },
+  { value: "percentOfEquity", label: "Percent of current equity" },
+  { value: "fixedAmount", label: "Fixed dollar amount" },
+  { value: "fixedRisk", label: "Fixed risk to the stop" },
+  { value: "volatilityTarget", label: "ATR volatility target" },
+  { value: "kelly", label: "Fractional Kelly" },
+];
+
+// Parameters each sizing model reads
+const sizingFields: Record<string, Array<NumberFieldOption<NonNullable<SimulationConfigValues["sizing"]>>>> = {
+  fixedAmount: [
+    { name: "amount", label: "Amount ($)", description: "Dollar value of each position" },
+  ],
+  fixedRisk: [
+    { name: "riskPercent", label: "Risk per Trade (%)", description: "Equity lost if the initial stop is hit" },
+  ],
+  volatilityTarget: [
+    { name: "riskPercent", label: "Risk per ATR (%)", description: "Equity moved by a one-ATR price move" },
+    { name: "atrPeriod", label: "ATR Period", description: "Bars in the ATR (default 14)" },
+  ],
+  kelly: [
+    { name: "kellyFraction", label: "Kelly Fraction", description: "Share of the full Kelly bet, e.g. 0.5 (default)" },
+    { name: "kellyLookback", label: "Lookback Trades", description: "Most recent closed trades used (default 50)" },
+    { name: "kellyMinTrades", label: "Minimum Trades", description: "Trades needed before Kelly applies (default 20)" },
+  ],
+};
+
+const priceModelOptions = [
+  { value: "randomWalk", label: "Random walk (original)" },
+  { value: "gbm", label: "Geometric Brownian motion" },
+  { value: "garch", label: "GARCH volatility clustering" },
+  { value: "jumpDiffusion", label: "Jump diffusion" },
+  { value: "meanReversion", label: "Mean reversion (Ornstein-Uhlenbeck)" },
+];
+
+const driftAndVolatilityFields: Array<NumberFieldOption<NonNullable<SimulationConfigValues["priceModel"]>>> = [
+  { name: "drift", label: "Drift (% per year)", description: "Expected annual return (default 8)", allowNegative: true },
+  { name: "volatility", label: "Volatility (% per year)", description: "Annualized volatility (default 25)" },
+];
+
+// Parameters each price model reads
+const priceModelFields: Record<string, Array<NumberFieldOption<NonNullable<SimulationConfigValues["priceModel"]>>>> = {
+  gbm: driftAndVolatilityFields,
+  garch: [
+    ...driftAndVolatilityFields,
+    { name: "garchAlpha", label: "GARCH Alpha", description: "Weight of the last shock (default 0.1)" },
+    { name: "garchBeta", label: "GARCH Beta", description: "Persistence of volatility (default 0.85)" },
+  ],
+  jumpDiffusion: [
+    ...driftAndVolatilityFields,
+    { name: "jumpIntensity", label: "Jumps per Year", description: "Expected number of jumps (default 2)" },
+    { name: "jumpMean", label: "Mean Jump (%)", description: "Average jump size; negative for crashes (default -8)", allowNegative: true },
+    { name: "jumpVolatility", label: "Jump Volatility (%)", description: "Spread of jump sizes (default 5)" },
+  ],
+  meanReversion: [
+    ...driftAndVolatilityFields,
+    { name: "meanReversionSpeed", label: "Reversion Speed", description: "Pull toward the mean price per year (default 5)" },
+    { name: "meanPrice", label: "Mean Price ($)", description: "Level prices revert to (default the starting price)" },
+  ],
+};
+
+const calendarOptions = [
+  { value: "NYSE", label: "NYSE (New York)" },
+  { value: "NSE", label: "NSE (India)" },
+  { value: "LSE", label: "LSE (London)" },
+  { value: "crypto", label: "Crypto (every day)" },
+];
+
+const benchmarkOptions = [
+  { value: "none", label: "None" },
+  { value: "symbol", label: "Buy-and-hold a symbol" },
+  { value: "equalWeight", label: "Equal-weight buy-and-hold of the universe" },
+];
+
+const costFields: Array<NumberFieldOption<NonNullable<SimulationConfigValues["costs"]>>> = [
+  { name: "commissionPerTrade", label: "Commission per Trade ($)", description: "Flat fee per order" },
+  { name: "commissionPerShare", label: "Commission per Share ($)", description: "Fee per share traded" },
+  { name: "commissionPercent", label: "Commission (%)", description: "Percentage of order value" },
+  { name: "minCommission", label: "Minimum Commission ($)", description: "Smallest fee charged per order" },
+  { name: "slippageBps", label: "Slippage (bps)", description: "Basis points lost on every fill" },
+];
+
+// Portfolio limits checked before each entry
+const riskLimitFields: Array<NumberFieldOption<NonNullable<SimulationConfigValues["riskLimits"]>>> = [
+  { name: "maxPositionsPerSymbol", label: "Max Positions per Symbol", description: "Open positions allowed in one symbol (default no limit)" },
+  { name: "maxSectorExposure", label: "Max Sector Exposure (%)", description: "Share of equity held in any one sector" },
+  { name: "maxGrossExposure", label: "Max Gross Exposure (%)", description: "Share of equity held across all positions, longs and shorts" },
+  { name: "maxCorrelation", label: "Max Correlation", description: "Highest return correlation with any holding, from -1 to 1", allowNegative: true },
+  { name: "correlationLookback", label: "Correlation Lookback", description: "Days of returns correlated (default 60)" },
+];
+
+type AdvancedSimulationFieldPath = FieldPath<AdvancedSimulationFormValues>;
+
+// Parse a number input, treating an empty field as unset
+function parseOptionalNumber(value: string) {
+  return value === "" ? undefined : parseFloat(value);
+}
+
+interface OptionalNumberFieldProps {
+  control: Control<AdvancedSimulationFormValues>;
+  name: AdvancedSimulationFieldPath;
+  label: string;
+  description: string;
+  allowNegative?: boolean;
+}
+
+// Number input for an optional setting; clearing it unsets the value
+function OptionalNumberField({ control, name, label, description, allowNegative }: OptionalNumberFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={allowNegative ? undefined : 0}
+              step="any"
+              value={(field.value as number | undefined) ?? ""}
+              onChange={(e) => field.onChange(parseOptionalNumber(e.target.value))}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface NameListFieldProps {
+  control: Control<AdvancedSimulationFormValues>;
+  name: AdvancedSimulationFieldPath;
+  label: string;
+  description: string;
+}
+
+// Text input for a list of names, typed comma-separated
+function NameListField({ control, name, label, description }: NameListFieldProps) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              placeholder="Any"
+              value={((field.value as string[] | undefined) || []).join(",")}
+              onChange={(e) => field.onChange(e.target.value === "" ? undefined : e.target.value.split(","))}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Simulation settings shared by the create and edit forms, bound to the
+// surrounding form. Each form has more values than the ones edited here.
+export function AdvancedSimulationFields() {
+  const { control } = useFormContext<AdvancedSimulationFormValues>();
+  const sizingModel = useWatch({ control, name: "simulationConfig.sizing.model" }) || "percentOfInitialCapital";
+  const benchmarkType = useWatch({ control, name: "simulationConfig.benchmark.type" });
+  const priceModel = useWatch({ control, name: "simulationConfig.priceModel.model" }) || "randomWalk";
+  const correlation = useWatch({ control, name: "simulationConfig.priceModel.correlation" });
+  const universeSource = useWatch({ control, name: "simulationConfig.universe.source" });
+  const [dataProviders, setDataProviders] = useState<Array<{ name: string; description: string }>>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string>();
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+
+  useEffect(() => {
+    getMarketDataProviders().then(({ providers, defaultProvider }) => {
+      setDataProviders(providers);
+      setDefaultProvider(defaultProvider);
+    });
+    getWatchlists().then(setWatchlists).catch(() => setWatchlists([]));
+  }, []);
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="simulationConfig.universe"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Universe</FormLabel>
+            <Select
+              value={field.value?.source || "symbols"}
+              onValueChange={(source) => field.onChange(source === "symbols" ? undefined : { source })}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {universeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Symbols the scanner looks for candidates in each day</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {universeSource === "watchlist" && (
+        <FormField
+          control={control}
+          name="simulationConfig.universe.watchlistId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Watchlist</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a watchlist" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {watchlists.map((watchlist) => (
+                    <SelectItem key={watchlist._id} value={watchlist._id!}>
+                      {watchlist.name} ({watchlist.symbols.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Its symbols are read again on every run</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      {(universeSource === "all" || universeSource === "watchlist") && (
+        <>
+          <NameListField
+            control={control}
+            name="simulationConfig.universe.sectors"
+            label="Sectors"
+            description="Only scan symbols in these sectors, comma-separated"
+          />
+          <NameListField
+            control={control}
+            name="simulationConfig.universe.exchanges"
+            label="Exchanges"
+            description="Only scan symbols listed on these exchanges, comma-separated"
+          />
+        </>
+      )}
+
+      <FormField
+        control={control}
+        name="simulationConfig.sizing"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Position Sizing</FormLabel>
+            <Select
+              value={field.value?.model || "percentOfInitialCapital"}
+              onValueChange={(model) => field.onChange({ ...(field.value || {}), model })}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {sizingModelOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              Percentage models use the Position Size above; others fall back to it until they can size a trade
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {(sizingFields[sizingModel] || []).map((sizingField) => (
+        <OptionalNumberField
+          key={`${sizingModel}.${sizingField.name}`}
+          control={control}
+          name={`simulationConfig.sizing.${sizingField.name}`}
+          label={sizingField.label}
+          description={sizingField.description}
+        />
+      ))}
+
+      <FormField
+        control={control}
+        name="simulationConfig.fillModel"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Order Fills</FormLabel>
+            <Select value={field.value || "sameBarClose"} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {fillModelOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              When signals on a day&apos;s close are filled
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="simulationConfig.benchmark"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Benchmark</FormLabel>
+            <Select
+              value={field.value?.type || "none"}
+              onValueChange={(type) =>
+                field.onChange(
+                  type === "none" ? undefined : type === "symbol" ? { type, symbol: "" } : { type }
+                )
+              }
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {benchmarkOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              Compared with the strategy for alpha, beta and the equity chart
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {benchmarkType === "symbol" && (
+        <FormField
+          control={control}
+          name="simulationConfig.benchmark.symbol"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Benchmark Symbol</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="SPY"
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <OptionalNumberField
+        control={control}
+        name="simulationConfig.riskFreeRate"
+        label="Risk-Free Rate (%)"
+        description="Annual rate the Sharpe and Sortino ratios are measured against"
+      />
+
+      <FormField
+        control={control}
+        name="simulationConfig.dataProvider"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Market Data</FormLabel>
+            <Select
+              value={field.value || "server"}
+              onValueChange={(value) => field.onChange(value === "server" ? undefined : value)}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="server">
+                  Server default{defaultProvider ? ` (${defaultProvider})` : ""}
+                </SelectItem>
+                {dataProviders.map((provider) => (
+                  <SelectItem key={provider.name} value={provider.name}>
+                    {provider.name}: {provider.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Where the simulation reads its bars from</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="simulationConfig.calendar"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Trading Calendar</FormLabel>
+            <Select value={field.value || "NYSE"} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {calendarOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Exchange holidays and early closes the simulation follows</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <OptionalNumberField
+        control={control}
+        name="simulationConfig.dataSeed"
+        label="Data Seed"
+        description="Reuse a run's seed to reproduce its market data; leave empty for new data each run"
+      />
+
+      <FormField
+        control={control}
+        name="simulationConfig.priceModel"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Price Model</FormLabel>
+            <Select
+              value={field.value?.model || "randomWalk"}
+              onValueChange={(model) => field.onChange({ ...(field.value || {}), model })}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {priceModelOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              How the synthetic market data moves; per-symbol parameters can be set through the API
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {(priceModelFields[priceModel] || []).map((modelField) => (
+        <OptionalNumberField
+          key={`${priceModel}.${modelField.name}`}
+          control={control}
+          name={`simulationConfig.priceModel.${modelField.name}`}
+          label={modelField.label}
+          description={modelField.description}
+          allowNegative={modelField.allowNegative}
+        />
+      ))}
+
+      {priceModel !== "randomWalk" && (
+        <FormField
+          control={control}
+          name="simulationConfig.priceModel.correlation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Symbol Correlation</FormLabel>
+              <Select
+                value={field.value ? "factors" : "independent"}
+                onValueChange={(value) => field.onChange(value === "factors" ? {} : undefined)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="independent">Independent symbols</SelectItem>
+                  <SelectItem value="factors">Market and sector factors</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Factor correlations and per-symbol sectors can be set through the API
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      {priceModel !== "randomWalk" && correlation && (
+        <>
+          <OptionalNumberField
+            control={control}
+            name="simulationConfig.priceModel.correlation.marketLoading"
+            label="Market Loading"
+            description="Each symbol's exposure to the market factor, 0-1 (default 0.6)"
+          />
+          <OptionalNumberField
+            control={control}
+            name="simulationConfig.priceModel.correlation.sectorLoading"
+            label="Sector Loading"
+            description="Each symbol's exposure to its sector factor, 0-1 (default 0.4)"
+          />
+        </>
+      )}
+
+      {costFields.map((costField) => (
+        <OptionalNumberField
+          key={costField.name}
+          control={control}
+          name={`simulationConfig.costs.${costField.name}`}
+          label={costField.label}
+          description={costField.description}
+        />
+      ))}
+
+      <FormField
+        control={control}
+        name="simulationConfig.costs.slippageModel"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Slippage Model</FormLabel>
+            <Select value={field.value || "fixed"} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {slippageModelOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              Volatility scaling charges the slippage per 1% of daily volatility
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {riskLimitFields.map((riskLimitField) => (
+        <OptionalNumberField
+          key={riskLimitField.name}
+          control={control}
+          name={`simulationConfig.riskLimits.${riskLimitField.name}`}
+          label={riskLimitField.label}
+          description={riskLimitField.description}
+          allowNegative={riskLimitField.allowNegative}
+        />
+      ))}
+    </>
+  );
+}
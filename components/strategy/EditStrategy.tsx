@@ -20,13 +20,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import dynamic from "next/dynamic";
-
-// Dynamically import the JSON display component to avoid SSR issues
-const JSONInput = dynamic(
-  () => import('react-json-editor-ajrm').then(mod => mod.default),
-  { ssr: false }
-);
+import { RuleConfigEditor, ruleConfigSchema } from "./RuleConfigEditor";
+import { AdvancedSimulationFields } from "./AdvancedSimulationFields";
+import { advancedSimulationConfigSchema } from "@/lib/simulationConfig";
 
 // Form validation schema
 const formSchema = z.object({
@@ -38,11 +34,12 @@ const formSchema = z.object({
     maxPositions: z.number().int().min(1, "Must have at least 1 position"),
     startDate: z.string(),
     endDate: z.string(),
-    symbols: z.array(z.string())
-  }),
-  scannerConfig: z.any(),
-  buyConfig: z.any(),
-  sellConfig: z.any()
+    symbols: z.array(z.string()),
+    ...advancedSimulationConfigSchema
+  }).passthrough(),
+  scannerConfig: ruleConfigSchema,
+  buyConfig: ruleConfigSchema,
+  sellConfig: ruleConfigSchema
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -55,9 +52,6 @@ interface EditStrategyFormProps {
 
 export function EditStrategyForm({ strategy, onSuccess, onCancel }: EditStrategyFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [scannerJson, setScannerJson] = useState(strategy.scannerConfig);
-  const [buyJson, setBuyJson] = useState(strategy.buyConfig);
-  const [sellJson, setSellJson] = useState(strategy.sellConfig);
   const { toast } = useToast();
 
   // Initialize form with strategy data
@@ -67,6 +61,8 @@ export function EditStrategyForm({ strategy, onSuccess, onCancel }: EditStrategy
       name: strategy.name,
       description: strategy.description || "",
       simulationConfig: {
+        // Keep settings this form does not edit so the update does not drop them
+        ...strategy.simulationConfig,
         initialCapital: strategy.simulationConfig.initialCapital,
         positionSize: strategy.simulationConfig.positionSize,
         maxPositions: strategy.simulationConfig.maxPositions,
@@ -84,11 +80,6 @@ export function EditStrategyForm({ strategy, onSuccess, onCancel }: EditStrategy
     try {
       setIsSubmitting(true);
       
-      // Update JSON values from the editor
-      values.scannerConfig = scannerJson;
-      values.buyConfig = buyJson;
-      values.sellConfig = sellJson;
-      
       // Reset simulation results when config changes
       const updatedStrategy = await updateStrategy(strategy._id, {
         ...values,
@@ -217,62 +208,61 @@ export function EditStrategyForm({ strategy, onSuccess, onCancel }: EditStrategy
               </FormItem>
             )}
           />
+          
+          <AdvancedSimulationFields />
         </div>
         
         <div className="space-y-4">
-          <div>
-            <h3 className="text-sm font-medium mb-2">Scanner Configuration</h3>
-            <div className="border rounded-md overflow-hidden">
-              <JSONInput
-                placeholder={scannerJson}
-                theme="light_mitsuketa_tribute"
-                style={{ body: { fontSize: "14px" } }}
-                height="200px"
-                width="100%"
-                onChange={(data: any) => {
-                  if (data.jsObject) {
-                    setScannerJson(data.jsObject);
-                  }
-                }}
-              />
-            </div>
-          </div>
+          <FormField
+            control={form.control}
+            name="scannerConfig"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Scanner Configuration</FormLabel>
+                <RuleConfigEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  legacyGroup="all"
+                  height="200px"
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           
-          <div>
-            <h3 className="text-sm font-medium mb-2">Buy Configuration</h3>
-            <div className="border rounded-md overflow-hidden">
-              <JSONInput
-                placeholder={buyJson}
-                theme="light_mitsuketa_tribute"
-                style={{ body: { fontSize: "14px" } }}
-                height="200px"
-                width="100%"
-                onChange={(data: any) => {
-                  if (data.jsObject) {
-                    setBuyJson(data.jsObject);
-                  }
-                }}
-              />
-            </div>
-          </div>
+          <FormField
+            control={form.control}
+            name="buyConfig"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Buy Configuration</FormLabel>
+                <RuleConfigEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  legacyGroup="all"
+                  height="200px"
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           
-          <div>
-            <h3 className="text-sm font-medium mb-2">Sell Configuration</h3>
-            <div className="border rounded-md overflow-hidden">
-              <JSONInput
-                placeholder={sellJson}
-                theme="light_mitsuketa_tribute"
-                style={{ body: { fontSize: "14px" } }}
-                height="200px"
-                width="100%"
-                onChange={(data: any) => {
-                  if (data.jsObject) {
-                    setSellJson(data.jsObject);
-                  }
-                }}
-              />
-            </div>
-          </div>
+          <FormField
+            control={form.control}
+            name="sellConfig"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sell Configuration</FormLabel>
+                <RuleConfigEditor
+                  value={field.value}
+                  onChange={field.onChange}
+                  legacyGroup="any"
+                  height="200px"
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
         
         <div className="flex justify-end gap-2">
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react";
+import dynamic from "next/dynamic";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { compileExpression, decompileRules } from "@/lib/expression";
+import { RuleExpressionEditor } from "./RuleExpressionEditor";
+
+// Dynamically import the JSON editor to avoid SSR issues
+const JSONInput = dynamic(
+  () => import('react-json-editor-ajrm').then(mod => mod.default),
+  { ssr: false }
+);
+
+type EditorMode = "expression" | "json";
+
+interface RuleConfigEditorProps {
+  value: Record<string, any>;
+  onChange: (config: Record<string, any>) => void;
+  legacyGroup: "all" | "any"; // how a flat `conditions` list is combined
+  height?: string;
+}
+
+// Form schema for a scanner/buy/sell config: any JSON is accepted, but an
+// expression must compile, including those of nested short-entry (`short`) and
+// short-cover (`cover`) rules
+export const ruleConfigSchema = z.any().superRefine((config, ctx) => {
+  [config, config?.short, config?.cover].forEach((rules, index) => {
+    if (typeof rules?.expression !== "string" || rules.expression.trim() === "") return;
+
+    const { errors } = compileExpression(rules.expression);
+    if (errors.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${index === 0 ? "" : index === 1 ? "Short rules: " : "Cover rules: "}`
+          + `Line ${errors[0].line}, column ${errors[0].column}: ${errors[0].message}`,
+      });
+    }
+  });
+});
+
+// Get the expression text for a config, decompiling its rules if it was written as JSON
+function getExpressionText(config: Record<string, any>, legacyGroup: "all" | "any"): string {
+  if (typeof config?.expression === "string") {
+    return config.expression;
+  }
+
+  const rules = config?.rules
+    || (Array.isArray(config?.conditions) && config.conditions.length > 0
+      ? { [legacyGroup]: config.conditions }
+      : undefined);
+
+  return (rules && decompileRules(rules)) || "";
+}
+
+export function RuleConfigEditor({ value, onChange, legacyGroup, height = "300px" }: RuleConfigEditorProps) {
+  const [mode, setMode] = useState<EditorMode>(typeof value?.expression === "string" ? "expression" : "json");
+  const [expression, setExpression] = useState(() => getExpressionText(value, legacyGroup));
+
+  const handleModeChange = (nextMode: EditorMode) => {
+    if (nextMode === "expression") {
+      setExpression(getExpressionText(value, legacyGroup));
+    }
+    setMode(nextMode);
+  };
+
+  const handleExpressionChange = (text: string, rules?: Record<string, any>) => {
+    setExpression(text);
+
+    // The compiled tree replaces any legacy flat condition list, and clearing
+    // the expression clears the rules with it
+    const { conditions, rules: previousRules, expression: previousExpression, ...rest } = value || {};
+    if (text.trim() === "") {
+      onChange(rest);
+    } else {
+      onChange(rules ? { ...rest, expression: text, rules } : { ...(value || {}), expression: text });
+    }
+  };
+
+  const handleJsonChange = (data: any) => {
+    if (!data.jsObject) return;
+
+    // Editing the rules by hand makes the stored expression stale
+    const next = { ...data.jsObject };
+    if (JSON.stringify(next.rules) !== JSON.stringify(value?.rules)) {
+      delete next.expression;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "expression" ? "default" : "outline"}
+          onClick={() => handleModeChange("expression")}
+        >
+          Expression
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "json" ? "default" : "outline"}
+          onClick={() => handleModeChange("json")}
+        >
+          JSON
+        </Button>
+      </div>
+
+      {mode === "expression" ? (
+        <RuleExpressionEditor
+          value={expression}
+          height={height}
+          onChange={(text, result) => handleExpressionChange(text, result.rules)}
+        />
+      ) : (
+        <div className="border rounded-md overflow-hidden">
+          <JSONInput
+            placeholder={value}
+            confirmGood={false}
+            onChange={handleJsonChange}
+            theme="light_mitsuketa_tribute"
+            style={{ body: { fontSize: "14px" } }}
+            height={height}
+            width="100%"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useMemo } from "react";
+import { AlertCircle, CheckCircle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { compileExpression, CompileResult } from "@/lib/expression";
+
+interface RuleExpressionEditorProps {
+  value: string;
+  onChange: (expression: string, result: CompileResult) => void;
+  placeholder?: string;
+  height?: string;
+}
+
+export function RuleExpressionEditor({ value, onChange, placeholder, height = "200px" }: RuleExpressionEditorProps) {
+  // Validate as you type
+  const result = useMemo(() => compileExpression(value), [value]);
+  const lines = value.split("\n");
+  const isEmpty = value.trim() === "";
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value, compileExpression(e.target.value))}
+        placeholder={placeholder || "close > sma(close, 20) and rsi(14) < 30"}
+        spellCheck={false}
+        className="font-mono text-sm"
+        style={{ height }}
+      />
+
+      {isEmpty ? null : result.errors.length === 0 ? (
+        <div className="flex items-center text-sm text-green-600">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Expression is valid
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {result.errors.map((error, index) => (
+            <div key={index} className="text-sm text-red-500">
+              <div className="flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                Line {error.line}, column {error.column}: {error.message}
+              </div>
+              <pre className="bg-red-50 p-2 mt-1 rounded-md overflow-auto text-xs">
+                {lines[error.line - 1]}
+                {"\n"}
+                {" ".repeat(error.column - 1)}
+                {"^".repeat(Math.max(1, Math.min(error.end - error.start, lines[error.line - 1].length - error.column + 1)))}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
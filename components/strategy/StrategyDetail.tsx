@@ -2,8 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { Strategy } from "@/types";
-import { getStrategy, startSimulation, updateStrategy, copyStrategy } from "@/lib/api";
+import { ExitReason, FillModel, PriceModelName, RiskLimitRule, SimulationConfig, SimulationResults, Strategy } from "@/types";
+import { getStrategy, startSimulation, updateStrategy, copyStrategy, getWatchlist } from "@/lib/api";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -44,6 +44,129 @@ const JSONInput = dynamic(
   { ssr: false }
 );
 
+const exitReasonLabels: Record<ExitReason, string> = {
+  signal: "Sell signal",
+  stopLoss: "Stop loss",
+  takeProfit: "Take profit",
+  trailingStop: "Trailing stop",
+  breakEven: "Break-even stop",
+  timeStop: "Time stop",
+  endOfData: "End of simulation",
+};
+
+const riskLimitRuleLabels: Record<RiskLimitRule, string> = {
+  symbolLimit: "Per-symbol limit",
+  sectorExposure: "Sector exposure",
+  grossExposure: "Gross exposure",
+  correlation: "Correlation",
+};
+
+const priceModelLabels: Record<PriceModelName, string> = {
+  randomWalk: "Random walk",
+  gbm: "Geometric Brownian motion",
+  garch: "GARCH volatility clustering",
+  jumpDiffusion: "Jump diffusion",
+  meanReversion: "Mean reversion",
+};
+
+const fillModelLabels: Record<FillModel, string> = {
+  sameBarClose: "Same bar close",
+  nextBarOpen: "Next bar open",
+  nextBarVwap: "Next bar VWAP (approx.)",
+};
+
+// Describe how a strategy sizes its positions
+function describePositionSizing({ sizing, positionSize }: SimulationConfig): string {
+  switch (sizing?.model) {
+    case "percentOfEquity":
+      return `${positionSize}% of equity`;
+    case "fixedAmount":
+      return `$${(sizing.amount ?? 0).toLocaleString()} per position`;
+    case "fixedRisk":
+      return `Risk ${sizing.riskPercent}% of equity to the stop`;
+    case "volatilityTarget":
+      return `${sizing.riskPercent}% of equity per ATR(${sizing.atrPeriod || 14})`;
+    case "kelly":
+      return `${(sizing.kellyFraction ?? 0.5) * 100}% Kelly`;
+    default:
+      return `${positionSize}% of capital`;
+  }
+}
+
+// Format an optional metric, or "N/A" when the run could not compute it
+function formatMetric(value: number | undefined, formatValue: (value: number) => string = (v) => v.toFixed(2)): string {
+  return value !== undefined && value !== null && isFinite(value) ? formatValue(value) : "N/A";
+}
+
+// Risk-adjusted and trade statistics shown in the Performance Summary
+function getRiskMetrics(metrics: SimulationResults["metrics"]): Array<{ label: string; value: string }> {
+  return [
+    { label: "CAGR", value: formatMetric(metrics.cagr, (v) => `${v.toFixed(2)}%`) },
+    { label: "Sharpe Ratio", value: formatMetric(metrics.sharpeRatio) },
+    { label: "Sortino Ratio", value: formatMetric(metrics.sortinoRatio) },
+    { label: "Calmar Ratio", value: formatMetric(metrics.calmarRatio) },
+    { label: "Volatility (Ann.)", value: formatMetric(metrics.annualizedVolatility, (v) => `${v.toFixed(2)}%`) },
+    { label: "Exposure", value: formatMetric(metrics.exposure, (v) => `${v.toFixed(1)}%`) },
+    { label: "Avg. Holding Period", value: formatMetric(metrics.averageHoldingDays, (v) => `${v.toFixed(1)} days`) },
+    {
+      label: "Longest Win/Loss Streak",
+      value: `${formatMetric(metrics.longestWinStreak, String)} / ${formatMetric(metrics.longestLossStreak, String)}`,
+    },
+    { label: "Expectancy", value: formatMetric(metrics.expectancy, (v) => `${v >= 0 ? "+" : "-"}$${Math.abs(v).toFixed(2)}`) },
+    { label: "Payoff Ratio", value: formatMetric(metrics.payoffRatio) },
+  ];
+}
+
+// Comparison with the benchmark, for runs that had one
+function getBenchmarkMetrics(metrics: SimulationResults["metrics"]): Array<{ label: string; value: string }> {
+  if (metrics.trackingError === undefined) {
+    return [];
+  }
+
+  return [
+    { label: "Alpha (Ann.)", value: formatMetric(metrics.alpha, (v) => `${v >= 0 ? "+" : ""}${v.toFixed(2)}%`) },
+    { label: "Beta", value: formatMetric(metrics.beta) },
+    { label: "Tracking Error", value: formatMetric(metrics.trackingError, (v) => `${v.toFixed(2)}%`) },
+    { label: "Information Ratio", value: formatMetric(metrics.informationRatio) },
+    {
+      label: "Up/Down Capture",
+      value: `${formatMetric(metrics.upCapture, (v) => `${v.toFixed(0)}%`)} / ${formatMetric(metrics.downCapture, (v) => `${v.toFixed(0)}%`)}`,
+    },
+  ];
+}
+
+// Describe what a strategy is compared against
+function describeBenchmark({ benchmark }: SimulationConfig): string {
+  if (!benchmark) return "None";
+  return benchmark.type === "symbol" ? `${benchmark.symbol} buy-and-hold` : "Equal-weight buy-and-hold";
+}
+
+// Describe the symbols a strategy scans, naming its watchlist if it scans one
+function describeUniverse({ universe }: SimulationConfig, watchlistName?: string): string {
+  if (!universe) return "Symbols list";
+  const filters = [universe.sectors, universe.exchanges]
+    .filter((names): names is string[] => Boolean(names && names.length > 0))
+    .map((names) => names.join(", "));
+  const source = universe.source === "all"
+    ? "Every provider symbol"
+    : universe.source === "watchlist"
+    ? `Watchlist ${watchlistName || ""}`.trim()
+    : "Symbols list";
+  return filters.length > 0 ? `${source} in ${filters.join("; ")}` : source;
+}
+
+// Describe the risk limits an entry must pass, besides the maximum positions
+function describeRiskLimits({ riskLimits }: SimulationConfig): string {
+  const limits = [
+    riskLimits?.maxPositionsPerSymbol !== undefined && `${riskLimits.maxPositionsPerSymbol} per symbol`,
+    riskLimits?.maxSectorExposure !== undefined && `${riskLimits.maxSectorExposure}% per sector`,
+    riskLimits?.maxGrossExposure !== undefined && `${riskLimits.maxGrossExposure}% gross`,
+    riskLimits?.maxCorrelation !== undefined &&
+      `correlation ≤ ${riskLimits.maxCorrelation} over ${riskLimits.correlationLookback ?? 60} days`,
+  ];
+  return limits.filter(Boolean).join(", ") || "None";
+}
+
 interface StrategyDetailProps {
   strategyId: string;
 }
@@ -53,6 +176,7 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [simulating, setSimulating] = useState(false);
+  const [watchlistName, setWatchlistName] = useState<string>();
   const [copying, setCopying] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
@@ -87,6 +211,16 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
     };
   }, [strategyId]);
 
+  // Look up the name of the watchlist the strategy scans
+  const watchlistId = strategy?.simulationConfig.universe?.watchlistId;
+  useEffect(() => {
+    if (watchlistId) {
+      getWatchlist(watchlistId)
+        .then((watchlist) => setWatchlistName(watchlist.name))
+        .catch(() => setWatchlistName(undefined));
+    }
+  }, [watchlistId]);
+
   // Function to start polling for simulation results
   const startPolling = () => {
     // Clear any existing interval
@@ -377,6 +511,11 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                {strategy.scannerConfig?.expression && (
+                  <pre className="bg-secondary p-3 rounded-md overflow-auto text-sm mb-4 whitespace-pre-wrap">
+                    {strategy.scannerConfig.expression}
+                  </pre>
+                )}
                 <div className="border rounded-md overflow-hidden">
                   <JSONInput
                     placeholder={strategy.scannerConfig}
@@ -398,6 +537,11 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                {strategy.buyConfig?.expression && (
+                  <pre className="bg-secondary p-3 rounded-md overflow-auto text-sm mb-4 whitespace-pre-wrap">
+                    {strategy.buyConfig.expression}
+                  </pre>
+                )}
                 <div className="border rounded-md overflow-hidden">
                   <JSONInput
                     placeholder={strategy.buyConfig}
@@ -419,6 +563,11 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                {strategy.sellConfig?.expression && (
+                  <pre className="bg-secondary p-3 rounded-md overflow-auto text-sm mb-4 whitespace-pre-wrap">
+                    {strategy.sellConfig.expression}
+                  </pre>
+                )}
                 <div className="border rounded-md overflow-hidden">
                   <JSONInput
                     placeholder={strategy.sellConfig}
@@ -458,7 +607,7 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                   <div>
                     <div className="text-sm font-medium text-muted-foreground mb-1">Position Size</div>
                     <div className="text-base">
-                      {strategy.simulationConfig.positionSize}% of capital
+                      {describePositionSizing(strategy.simulationConfig)}
                     </div>
                   </div>
                   
@@ -469,6 +618,69 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                     </div>
                   </div>
                   
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Order Fills</div>
+                    <div className="text-base">
+                      {fillModelLabels[strategy.simulationConfig.fillModel || "sameBarClose"]}
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Price Model</div>
+                    <div className="text-base">
+                      {priceModelLabels[strategy.simulationConfig.priceModel?.model || "randomWalk"]}
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Trading Calendar</div>
+                    <div className="text-base">{strategy.simulationConfig.calendar || "NYSE"}</div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Market Data</div>
+                    <div className="text-base">
+                      {strategy.simulationConfig.dataProvider ?? strategy.results?.dataProvider ?? "Server default"}
+                      {strategy.simulationConfig.dataProvider === undefined && strategy.results?.dataProvider !== undefined && (
+                        <span className="text-muted-foreground"> (last run)</span>
+                      )}
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Data Seed</div>
+                    <div className="text-base">
+                      {strategy.simulationConfig.dataSeed ?? strategy.results?.dataSeed ?? "Random"}
+                      {strategy.simulationConfig.dataSeed === undefined && strategy.results?.dataSeed !== undefined && (
+                        <span className="text-muted-foreground"> (last run)</span>
+                      )}
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Benchmark</div>
+                    <div className="text-base">
+                      {describeBenchmark(strategy.simulationConfig)}
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Risk Limits</div>
+                    <div className="text-base">{describeRiskLimits(strategy.simulationConfig)}</div>
+                  </div>
+                  
+                  <div>
+                    <div className="text-sm font-medium text-muted-foreground mb-1">Universe</div>
+                    <div className="text-base">
+                      {describeUniverse(strategy.simulationConfig, watchlistName)}
+                      {strategy.results?.symbols && (
+                        <span className="text-muted-foreground">
+                          {" "}({strategy.results.symbols.length} symbol{strategy.results.symbols.length === 1 ? "" : "s"} last run)
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  
                   <div>
                     <div className="text-sm font-medium text-muted-foreground mb-1">Symbols</div>
                     <div className="text-base flex flex-wrap gap-2">
@@ -552,6 +764,22 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                         {strategy.results.metrics.winningTrades} / {strategy.results.metrics.losingTrades}
                       </div>
                     </div>
+                    
+                    <div>
+                      <div className="text-sm font-medium text-muted-foreground mb-1">Trading Costs</div>
+                      <div className="text-xl font-bold">
+                        {strategy.results.metrics.totalCosts !== undefined
+                          ? `$${strategy.results.metrics.totalCosts.toFixed(2)}`
+                          : "N/A"}
+                      </div>
+                    </div>
+                    
+                    {[...getRiskMetrics(strategy.results.metrics), ...getBenchmarkMetrics(strategy.results.metrics)].map((metric) => (
+                      <div key={metric.label}>
+                        <div className="text-sm font-medium text-muted-foreground mb-1">{metric.label}</div>
+                        <div className="text-xl font-bold">{metric.value}</div>
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -564,7 +792,10 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                   <div className="h-[400px]">
                     <ResponsiveContainer width="100%" height="100%">
                       <RechartsLineChart
-                        data={strategy.results.equityCurve}
+                        data={strategy.results.equityCurve.map((point, index) => ({
+                          ...point,
+                          benchmark: strategy.results?.benchmarkCurve?.[index]?.equity,
+                        }))}
                         margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                       >
                         <CartesianGrid strokeDasharray="3 3" />
@@ -580,7 +811,10 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                           tickFormatter={(value) => `$${value.toLocaleString()}`}
                         />
                         <Tooltip 
-                          formatter={(value: any) => [`$${Number(value).toLocaleString()}`, "Portfolio Value"]}
+                          formatter={(value: any, name: any) => [
+                            `$${Number(value).toLocaleString()}`,
+                            name === "benchmark" ? "Benchmark" : "Portfolio Value"
+                          ]}
                           labelFormatter={(label) => format(new Date(label), "MMMM d, yyyy")}
                         />
                         <Line 
@@ -591,6 +825,16 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                           dot={false}
                           activeDot={{ r: 6 }}
                         />
+                        {strategy.results.benchmarkCurve && (
+                          <Line 
+                            type="monotone" 
+                            dataKey="benchmark" 
+                            stroke="hsl(var(--chart-2))" 
+                            strokeWidth={2}
+                            strokeDasharray="5 5"
+                            dot={false}
+                          />
+                        )}
                       </RechartsLineChart>
                     </ResponsiveContainer>
                   </div>
@@ -650,6 +894,7 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                       <thead>
                         <tr className="border-b">
                           <th className="text-left font-medium p-2">Symbol</th>
+                          <th className="text-left font-medium p-2">Direction</th>
                           <th className="text-left font-medium p-2">Entry Date</th>
                           <th className="text-right font-medium p-2">Entry Price</th>
                           <th className="text-left font-medium p-2">Exit Date</th>
@@ -657,6 +902,7 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                           <th className="text-right font-medium p-2">Quantity</th>
                           <th className="text-right font-medium p-2">P&L</th>
                           <th className="text-right font-medium p-2">P&L %</th>
+                          <th className="text-left font-medium p-2">Exit Reason</th>
                           <th className="text-center font-medium p-2">Status</th>
                         </tr>
                       </thead>
@@ -664,6 +910,11 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                         {strategy.results.trades.map((trade, index) => (
                           <tr key={index} className="border-b hover:bg-muted/50">
                             <td className="p-2 font-medium">{trade.symbol}</td>
+                            <td className="p-2">
+                              <Badge variant="outline" className={`text-xs ${trade.side === "short" ? "bg-red-50" : "bg-green-50"}`}>
+                                {trade.side === "short" ? "Short" : "Long"}
+                              </Badge>
+                            </td>
                             <td className="p-2">{format(new Date(trade.entryDate), "MMM d, yyyy")}</td>
                             <td className="p-2 text-right">${trade.entryPrice.toFixed(2)}</td>
                             <td className="p-2">
@@ -695,6 +946,13 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                                 ? `${trade.pnlPercentage > 0 ? "+" : ""}${trade.pnlPercentage.toFixed(2)}%` 
                                 : "—"}
                             </td>
+                            <td className="p-2">
+                              {trade.exitReason
+                                ? trade.side === "short" && trade.exitReason === "signal"
+                                  ? "Cover signal"
+                                  : exitReasonLabels[trade.exitReason]
+                                : "—"}
+                            </td>
                             <td className="p-2 text-center">
                               {trade.status === "closed" ? (
                                 <Badge variant="outline" className="text-xs">
@@ -714,6 +972,46 @@ export function StrategyDetail({ strategyId }: StrategyDetailProps) {
                   </div>
                 </CardContent>
               </Card>
+              
+              {strategy.results.rejectedSignals && strategy.results.rejectedSignals.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Rejected Signals</CardTitle>
+                    <CardDescription>
+                      Entry signals the risk limits stopped
+                      {(strategy.results.rejectedSignalCount ?? 0) > strategy.results.rejectedSignals.length &&
+                        ` (the first ${strategy.results.rejectedSignals.length} of ${strategy.results.rejectedSignalCount})`}
+                      .
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left font-medium p-2">Date</th>
+                            <th className="text-left font-medium p-2">Symbol</th>
+                            <th className="text-left font-medium p-2">Direction</th>
+                            <th className="text-left font-medium p-2">Limit</th>
+                            <th className="text-left font-medium p-2">Reason</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {strategy.results.rejectedSignals.map((signal, index) => (
+                            <tr key={index} className="border-b hover:bg-muted/50">
+                              <td className="p-2">{format(new Date(signal.date), "MMM d, yyyy")}</td>
+                              <td className="p-2 font-medium">{signal.symbol}</td>
+                              <td className="p-2">{signal.side === "short" ? "Short" : "Long"}</td>
+                              <td className="p-2">{riskLimitRuleLabels[signal.rule]}</td>
+                              <td className="p-2 text-muted-foreground">{signal.reason}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center min-h-[300px] p-6 border border-dashed rounded-lg">
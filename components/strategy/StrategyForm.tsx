@@ -13,68 +13,75 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { createStrategy } from "@/lib/api";
-import dynamic from "next/dynamic";
 import { ArrowLeft, ArrowRight, Save } from "lucide-react";
-
-// Dynamically import the JSON editor to avoid SSR issues
-const JSONInput = dynamic(
-  () => import('react-json-editor-ajrm').then(mod => mod.default),
-  { ssr: false }
-);
+import { RuleConfigEditor, ruleConfigSchema } from "./RuleConfigEditor";
+import { AdvancedSimulationFields } from "./AdvancedSimulationFields";
+import { advancedSimulationConfigSchema } from "@/lib/simulationConfig";
+import { SymbolPicker } from "./SymbolPicker";
 
 // Define the form schema with Zod
 const formSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
   description: z.string().optional(),
-  scannerConfig: z.any(),
-  buyConfig: z.any(),
-  sellConfig: z.any(),
+  scannerConfig: ruleConfigSchema,
+  buyConfig: ruleConfigSchema,
+  sellConfig: ruleConfigSchema,
   simulationConfig: z.object({
     startDate: z.string(),
     endDate: z.string(),
     initialCapital: z.number().min(1000, "Initial capital must be at least 1000"),
-    symbols: z.array(z.string()).min(1, "At least one symbol is required"),
+    symbols: z.array(z.string()),
     maxPositions: z.number().min(1, "Maximum positions must be at least 1"),
     positionSize: z.number().min(1, "Position size must be at least 1").max(100, "Position size cannot exceed 100%"),
-  }),
+    ...advancedSimulationConfigSchema,
+  }).refine(
+    (config) => (config.universe?.source ?? "symbols") !== "symbols" || config.symbols.length > 0,
+    { message: "At least one symbol is required", path: ["symbols"] }
+  ),
 });
 
 const defaultScannerConfig = {
-  conditions: [
-    {
-      indicator: "volume",
-      operator: ">",
-      value: 1000000
-    }
-  ]
+  rules: {
+    all: [
+      {
+        indicator: "volume",
+        operator: ">",
+        value: 1000000
+      }
+    ]
+  }
 };
 
 const defaultBuyConfig = {
-  conditions: [
-    {
-      indicator: "priceChange",
-      operator: ">",
-      value: 2.0
-    },
-    {
-      indicator: "price",
-      operator: ">",
-      value: 10
-    }
-  ]
+  rules: {
+    all: [
+      {
+        indicator: "priceChange",
+        operator: ">",
+        value: 2.0
+      },
+      {
+        indicator: "price",
+        operator: ">",
+        value: 10
+      }
+    ]
+  }
 };
 
 const defaultSellConfig = {
-  conditions: [
-    {
-      type: "stopLoss",
-      value: 5.0
-    },
-    {
-      type: "takeProfit",
-      value: 15.0
-    }
-  ]
+  rules: {
+    any: [
+      {
+        type: "stopLoss",
+        value: 5.0
+      },
+      {
+        type: "takeProfit",
+        value: 15.0
+      }
+    ]
+  }
 };
 
 const defaultSymbols = ["AAPL", "MSFT", "GOOGL", "AMZN", "META"];
@@ -99,6 +106,7 @@ export function StrategyForm() {
         symbols: defaultSymbols,
         maxPositions: 5,
         positionSize: 20,
+        fillModel: "sameBarClose",
       },
     },
   });
@@ -137,12 +145,6 @@ export function StrategyForm() {
     }
   };
 
-  const handleJsonChange = (tab: string) => (data: any) => {
-    if (data.jsObject) {
-      form.setValue(tab as any, data.jsObject);
-    }
-  };
-
   return (
     <div className="max-w-5xl mx-auto py-6">
       <div className="flex items-center justify-between mb-6">
@@ -216,17 +218,20 @@ export function StrategyForm() {
                     <p className="text-sm text-muted-foreground mb-4">
                       Define conditions to filter instruments before applying buy/sell rules.
                     </p>
-                    <div className="mb-4 border rounded-md overflow-hidden">
-                      <JSONInput
-                        placeholder={form.getValues("scannerConfig")}
-                        confirmGood={false}
-                        onBlur={handleJsonChange("scannerConfig")}
-                        theme="light_mitsuketa_tribute"
-                        style={{ body: { fontSize: "14px" } }}
-                        height="300px"
-                        width="100%"
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="scannerConfig"
+                      render={({ field }) => (
+                        <FormItem className="mb-4">
+                          <RuleConfigEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            legacyGroup="all"
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <div className="text-sm text-muted-foreground">
                       <p className="font-medium mb-2">Example format:</p>
                       <pre className="bg-secondary p-3 rounded-md overflow-auto">
@@ -242,17 +247,20 @@ export function StrategyForm() {
                     <p className="text-sm text-muted-foreground mb-4">
                       Define conditions that trigger buy signals in your strategy.
                     </p>
-                    <div className="mb-4 border rounded-md overflow-hidden">
-                      <JSONInput
-                        placeholder={form.getValues("buyConfig")}
-                        confirmGood={false}
-                        onBlur={handleJsonChange("buyConfig")}
-                        theme="light_mitsuketa_tribute"
-                        style={{ body: { fontSize: "14px" } }}
-                        height="300px"
-                        width="100%"
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="buyConfig"
+                      render={({ field }) => (
+                        <FormItem className="mb-4">
+                          <RuleConfigEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            legacyGroup="all"
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <div className="text-sm text-muted-foreground">
                       <p className="font-medium mb-2">Example format:</p>
                       <pre className="bg-secondary p-3 rounded-md overflow-auto">
@@ -268,17 +276,20 @@ export function StrategyForm() {
                     <p className="text-sm text-muted-foreground mb-4">
                       Define conditions that trigger sell signals in your strategy.
                     </p>
-                    <div className="mb-4 border rounded-md overflow-hidden">
-                      <JSONInput
-                        placeholder={form.getValues("sellConfig")}
-                        confirmGood={false}
-                        onBlur={handleJsonChange("sellConfig")}
-                        theme="light_mitsuketa_tribute"
-                        style={{ body: { fontSize: "14px" } }}
-                        height="300px"
-                        width="100%"
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="sellConfig"
+                      render={({ field }) => (
+                        <FormItem className="mb-4">
+                          <RuleConfigEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                            legacyGroup="any"
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <div className="text-sm text-muted-foreground">
                       <p className="font-medium mb-2">Example format:</p>
                       <pre className="bg-secondary p-3 rounded-md overflow-auto">
@@ -404,25 +415,17 @@ export function StrategyForm() {
                           <FormItem>
                             <FormLabel>Symbols</FormLabel>
                             <FormControl>
-                              <Input
-                                placeholder="AAPL, MSFT, GOOGL"
-                                value={field.value.join(", ")}
-                                onChange={(e) => {
-                                  const symbols = e.target.value
-                                    .split(",")
-                                    .map((symbol) => symbol.trim())
-                                    .filter(Boolean);
-                                  field.onChange(symbols);
-                                }}
-                              />
+                              <SymbolPicker value={field.value} onChange={field.onChange} />
                             </FormControl>
                             <FormDescription>
-                              Comma-separated list of ticker symbols
+                              Search by ticker, name or sector, or type a ticker to add it
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
+
+                      <AdvancedSimulationFields />
                     </div>
                   </div>
                 </TabsContent>
@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { getAvailableSymbols } from "@/lib/api";
+import { SymbolMetadata } from "@/types";
+
+interface SymbolPickerProps {
+  value: string[];
+  onChange: (symbols: string[]) => void;
+}
+
+// Secondary line for a symbol in the list: exchange, sector and industry
+function describeSymbol(metadata: SymbolMetadata): string {
+  return [metadata.exchange, metadata.sector, metadata.industry].filter(Boolean).join(" · ");
+}
+
+// Multi-select of symbols, searchable by ticker, name, sector and industry.
+// Tickers missing from the registry can still be added by typing them.
+export function SymbolPicker({ value, onChange }: SymbolPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [symbols, setSymbols] = useState<SymbolMetadata[]>([]);
+
+  useEffect(() => {
+    getAvailableSymbols().then(setSymbols);
+  }, []);
+
+  const metadataBySymbol = new Map(symbols.map((metadata) => [metadata.symbol, metadata]));
+  const typed = search.trim().toUpperCase();
+
+  const toggle = (symbol: string) => {
+    onChange(value.includes(symbol) ? value.filter((s) => s !== symbol) : [...value, symbol]);
+  };
+
+  const addTyped = () => {
+    if (typed && !value.includes(typed)) {
+      onChange([...value, typed]);
+    }
+    setSearch("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+            {value.length > 0 ? `${value.length} symbol${value.length === 1 ? "" : "s"} selected` : "Select symbols"}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search by ticker, name or sector..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No symbols found.</CommandEmpty>
+              {typed && !metadataBySymbol.has(typed) && !value.includes(typed) && (
+                <CommandGroup forceMount>
+                  <CommandItem forceMount value={`add ${typed}`} onSelect={addTyped}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add &quot;{typed}&quot;
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              <CommandGroup>
+                {symbols.map((metadata) => (
+                  <CommandItem
+                    key={metadata.symbol}
+                    value={metadata.symbol}
+                    keywords={[metadata.name, metadata.sector, metadata.industry, metadata.exchange].filter(
+                      (keyword): keyword is string => Boolean(keyword)
+                    )}
+                    onSelect={() => toggle(metadata.symbol)}
+                  >
+                    <Check className={`mr-2 h-4 w-4 ${value.includes(metadata.symbol) ? "opacity-100" : "opacity-0"}`} />
+                    <div className="flex flex-col">
+                      <span>
+                        <span className="font-medium">{metadata.symbol}</span>
+                        {metadata.name && <span className="text-muted-foreground"> {metadata.name}</span>}
+                      </span>
+                      {describeSymbol(metadata) && (
+                        <span className="text-xs text-muted-foreground">{describeSymbol(metadata)}</span>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((symbol) => (
+            <Badge key={symbol} variant="secondary" className="gap-1" title={metadataBySymbol.get(symbol)?.name}>
+              {symbol}
+              <button type="button" aria-label={`Remove ${symbol}`} onClick={() => toggle(symbol)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Copy, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { copySharedWatchlist, getSharedWatchlist } from "@/lib/api";
+import { Watchlist } from "@/types";
+
+interface SharedWatchlistProps {
+  token: string;
+}
+
+// A watchlist opened from its share link, which can be saved as a copy
+export function SharedWatchlist({ token }: SharedWatchlistProps) {
+  const router = useRouter();
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedWatchlist(token)
+      .then(setWatchlist)
+      .catch(() => setError("This watchlist is not shared, or the link is wrong."))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleCopy = async () => {
+    try {
+      setCopying(true);
+      await copySharedWatchlist(token);
+      router.push("/watchlists");
+    } catch (err) {
+      setError("Failed to save a copy of the watchlist");
+      setCopying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{watchlist?.name || "Shared Watchlist"}</CardTitle>
+        {watchlist?.description && <CardDescription>{watchlist.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-4 border border-red-200 rounded-md bg-red-50 text-sm text-red-500 flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+            {error}
+          </div>
+        )}
+        {watchlist && (
+          <div className="flex flex-wrap gap-2">
+            {watchlist.symbols.map(symbol => (
+              <Badge key={symbol} variant="outline">{symbol}</Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      {watchlist && (
+        <CardFooter>
+          <Button onClick={handleCopy} disabled={copying}>
+            {copying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Copy className="mr-2 h-4 w-4" />}
+            Save a Copy
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,471 @@
+"use client"
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertCircle, Copy, Edit, Link2, Link2Off, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { SymbolPicker } from "@/components/strategy/SymbolPicker";
+import {
+  createWatchlist,
+  deleteWatchlist,
+  getWatchlists,
+  importIntoWatchlist,
+  importWatchlist,
+  shareWatchlist,
+  unshareWatchlist,
+  updateWatchlist,
+} from "@/lib/api";
+import { DataImportIssue, Watchlist } from "@/types";
+
+// Symbols shown in the table before the rest are counted
+const PREVIEW_SYMBOLS = 8;
+
+const watchlistSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(500).optional(),
+  symbols: z.array(z.string()),
+});
+
+type WatchlistValues = z.infer<typeof watchlistSchema>;
+
+const importSchema = z.object({
+  target: z.string(), // "new" or the ID of the watchlist to import into
+  name: z.string().optional(),
+  mode: z.enum(["merge", "replace"]),
+}).refine((values) => values.target !== "new" || Boolean(values.name?.trim()), {
+  message: "Name the new watchlist",
+  path: ["name"],
+});
+
+type ImportValues = z.infer<typeof importSchema>;
+
+// Link others can open a shared watchlist with
+function getShareLink(token: string): string {
+  return `${window.location.origin}/watchlists/shared/${token}`;
+}
+
+interface WatchlistDialogProps {
+  watchlist: Watchlist | null; // null for a new watchlist
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Create or edit a watchlist's name, description and symbols
+function WatchlistDialog({ watchlist, open, onOpenChange, onSaved }: WatchlistDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<WatchlistValues>({
+    resolver: zodResolver(watchlistSchema),
+    defaultValues: { name: "", description: "", symbols: [] },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: watchlist?.name || "",
+        description: watchlist?.description || "",
+        symbols: watchlist?.symbols || [],
+      });
+      setError(null);
+    }
+  }, [open, watchlist, form]);
+
+  const onSubmit = async (values: WatchlistValues) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (watchlist?._id) {
+        await updateWatchlist(watchlist._id, values);
+      } else {
+        await createWatchlist(values);
+      }
+
+      onSaved();
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Failed to save the watchlist");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{watchlist ? "Edit Watchlist" : "New Watchlist"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Large-cap tech" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="symbols"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Symbols</FormLabel>
+                  <FormControl>
+                    <SymbolPicker value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormDescription>Strategies scanning this watchlist use its symbols from their next run</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {error && (
+              <div className="p-4 border border-red-200 rounded-md bg-red-50 text-sm text-red-500 flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function Watchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Watchlist | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<DataImportIssue[]>([]);
+  const [copiedToken, setCopiedToken] = useState<string>();
+
+  const importForm = useForm<ImportValues>({
+    resolver: zodResolver(importSchema),
+    defaultValues: { target: "new", name: "", mode: "merge" },
+  });
+  const importTarget = importForm.watch("target");
+
+  const refreshWatchlists = async () => {
+    try {
+      setWatchlists(await getWatchlists());
+    } catch (err) {
+      setError("Failed to load watchlists. The server might not be running.");
+    }
+  };
+
+  useEffect(() => {
+    refreshWatchlists();
+  }, []);
+
+  const openDialog = (watchlist: Watchlist | null) => {
+    setEditing(watchlist);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (watchlist: Watchlist) => {
+    try {
+      setError(null);
+      await deleteWatchlist(watchlist._id!);
+      await refreshWatchlists();
+    } catch (err: any) {
+      setError(err?.response?.data?.message || `Failed to delete ${watchlist.name}`);
+    }
+  };
+
+  const handleShare = async (watchlist: Watchlist) => {
+    try {
+      setError(null);
+      if (watchlist.shareToken) {
+        await unshareWatchlist(watchlist._id!);
+      } else {
+        await shareWatchlist(watchlist._id!);
+      }
+      await refreshWatchlists();
+    } catch (err) {
+      setError(`Failed to change sharing for ${watchlist.name}`);
+    }
+  };
+
+  const handleCopyLink = async (token: string) => {
+    await navigator.clipboard.writeText(getShareLink(token));
+    setCopiedToken(token);
+  };
+
+  const onImport = async (values: ImportValues) => {
+    if (!file) {
+      setImportError("Choose a file to import");
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setImportError(null);
+      setIssues([]);
+
+      const content = await file.text();
+      if (values.target === "new") {
+        await importWatchlist(content, { name: values.name!.trim() });
+      } else {
+        await importIntoWatchlist(values.target, content, values.mode);
+      }
+
+      importForm.reset({ target: "new", name: "", mode: "merge" });
+      await refreshWatchlists();
+    } catch (err: any) {
+      const data = err?.response?.data;
+      setImportError(data?.message || "Failed to import the file");
+      setIssues(data?.issues || []);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Watchlists</CardTitle>
+            <CardDescription>Named symbol lists strategies can scan instead of their own symbols.</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Watchlist
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-4 border border-red-200 rounded-md bg-red-50 text-sm text-red-500 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {watchlists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No watchlists yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left font-medium p-2">Name</th>
+                    <th className="text-left font-medium p-2">Symbols</th>
+                    <th className="text-left font-medium p-2">Share Link</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {watchlists.map(watchlist => (
+                    <tr key={watchlist._id} className="border-b hover:bg-muted/50 align-top">
+                      <td className="p-2">
+                        <div className="font-medium">{watchlist.name}</div>
+                        {watchlist.description && (
+                          <div className="text-muted-foreground">{watchlist.description}</div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <div className="flex flex-wrap gap-1">
+                          {watchlist.symbols.slice(0, PREVIEW_SYMBOLS).map(symbol => (
+                            <Badge key={symbol} variant="outline">{symbol}</Badge>
+                          ))}
+                          {watchlist.symbols.length > PREVIEW_SYMBOLS && (
+                            <span className="text-muted-foreground">
+                              +{watchlist.symbols.length - PREVIEW_SYMBOLS} more
+                            </span>
+                          )}
+                          {watchlist.symbols.length === 0 && <span className="text-muted-foreground">Empty</span>}
+                        </div>
+                      </td>
+                      <td className="p-2">
+                        {watchlist.shareToken ? (
+                          <Button variant="ghost" size="sm" onClick={() => handleCopyLink(watchlist.shareToken!)}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            {copiedToken === watchlist.shareToken ? "Copied" : "Copy link"}
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">Not shared</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" title="Edit" onClick={() => openDialog(watchlist)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title={watchlist.shareToken ? "Stop sharing" : "Share"}
+                          onClick={() => handleShare(watchlist)}
+                        >
+                          {watchlist.shareToken ? <Link2Off className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(watchlist)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import from CSV</CardTitle>
+          <CardDescription>
+            One symbol per row, either under a symbol or ticker header or in the first column.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...importForm}>
+            <form onSubmit={importForm.handleSubmit(onImport)} className="space-y-6">
+              <FormItem>
+                <FormLabel>File</FormLabel>
+                <Input type="file" accept=".csv,.txt" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+              </FormItem>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={importForm.control}
+                  name="target"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Import Into</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="new">A new watchlist</SelectItem>
+                          {watchlists.map(watchlist => (
+                            <SelectItem key={watchlist._id} value={watchlist._id!}>
+                              {watchlist.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {importTarget === "new" ? (
+                  <FormField
+                    control={importForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value || ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={importForm.control}
+                    name="mode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Existing Symbols</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="merge">Keep, adding the file&apos;s symbols</SelectItem>
+                            <SelectItem value="replace">Replace with the file&apos;s symbols</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {importError && (
+                <div className="p-4 border border-red-200 rounded-md bg-red-50 text-sm text-red-500 space-y-1">
+                  <div className="flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                    {importError}
+                  </div>
+                  {issues.map(issue => (
+                    <div key={issue.row} className="pl-6">Row {issue.row}: {issue.message}</div>
+                  ))}
+                </div>
+              )}
+
+              <Button type="submit" disabled={importing}>
+                {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <WatchlistDialog
+        watchlist={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={refreshWatchlists}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Strategy, SimulationResults } from '@/types';
+import { Strategy, SimulationResults, DataImportOptions, Watchlist } from '@/types';
 
 const API_URL = 'http://localhost:5000/api';
 
@@ -58,7 +58,7 @@ export async function getSimulationResults(id: string) {
   }
 }
 
-// Get available symbols
+// Get available symbols with their metadata
 export async function getAvailableSymbols() {
   try {
     const response = await axios.get(`${API_URL}/strategy/symbols/available`);
@@ -69,6 +69,50 @@ export async function getAvailableSymbols() {
   }
 }
 
+// Import bars from a CSV or JSON file's text
+export async function importPriceData(content: string, options: DataImportOptions) {
+  try {
+    const response = await axios.post(`${API_URL}/data/import`, { ...options, content });
+    return response.data.imported;
+  } catch (error) {
+    console.error('Error importing price data:', error);
+    throw error;
+  }
+}
+
+// Get the symbols with imported data and the range each covers
+export async function getImportedSymbols() {
+  try {
+    const response = await axios.get(`${API_URL}/data/symbols`);
+    return response.data.symbols;
+  } catch (error) {
+    console.error('Error fetching imported symbols:', error);
+    throw error;
+  }
+}
+
+// Delete a symbol's imported data
+export async function deleteImportedData(symbol: string) {
+  try {
+    await axios.delete(`${API_URL}/data/${encodeURIComponent(symbol)}`);
+    return true;
+  } catch (error) {
+    console.error('Error deleting imported data:', error);
+    throw error;
+  }
+}
+
+// Get the market data providers a strategy can use, and the server's default
+export async function getMarketDataProviders() {
+  try {
+    const response = await axios.get(`${API_URL}/data/providers`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching market data providers:', error);
+    return { providers: [], defaultProvider: undefined };
+  }
+}
+
 // Update a strategy
 export async function updateStrategy(id: string, strategy: Partial<Strategy>) {
   try {
@@ -104,4 +148,125 @@ export const copyStrategy = async (id) => {
   }
   
   return response.json();
-};
\ No newline at end of file
+};
+
+// Get all watchlists
+export async function getWatchlists() {
+  try {
+    const response = await axios.get(`${API_URL}/watchlists`);
+    return response.data.watchlists;
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    throw error;
+  }
+}
+
+// Get a watchlist by ID
+export async function getWatchlist(id: string) {
+  try {
+    const response = await axios.get(`${API_URL}/watchlists/${id}`);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    throw error;
+  }
+}
+
+// Create a watchlist
+export async function createWatchlist(watchlist: Pick<Watchlist, 'name' | 'description' | 'symbols'>) {
+  try {
+    const response = await axios.post(`${API_URL}/watchlists`, watchlist);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    throw error;
+  }
+}
+
+// Update a watchlist
+export async function updateWatchlist(id: string, watchlist: Partial<Pick<Watchlist, 'name' | 'description' | 'symbols'>>) {
+  try {
+    const response = await axios.put(`${API_URL}/watchlists/${id}`, watchlist);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    throw error;
+  }
+}
+
+// Delete a watchlist
+export async function deleteWatchlist(id: string) {
+  try {
+    await axios.delete(`${API_URL}/watchlists/${id}`);
+    return true;
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    throw error;
+  }
+}
+
+// Create a watchlist from a CSV file's text
+export async function importWatchlist(content: string, watchlist: Pick<Watchlist, 'name' | 'description'>) {
+  try {
+    const response = await axios.post(`${API_URL}/watchlists/import`, { ...watchlist, content });
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    throw error;
+  }
+}
+
+// Add the symbols in a CSV file's text to a watchlist, or replace its symbols with them
+export async function importIntoWatchlist(id: string, content: string, mode: 'merge' | 'replace' = 'merge') {
+  try {
+    const response = await axios.post(`${API_URL}/watchlists/${id}/import`, { content, mode });
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    throw error;
+  }
+}
+
+// Share a watchlist, returning it with its share token
+export async function shareWatchlist(id: string) {
+  try {
+    const response = await axios.post(`${API_URL}/watchlists/${id}/share`);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error sharing watchlist:', error);
+    throw error;
+  }
+}
+
+// Stop sharing a watchlist
+export async function unshareWatchlist(id: string) {
+  try {
+    const response = await axios.delete(`${API_URL}/watchlists/${id}/share`);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error unsharing watchlist:', error);
+    throw error;
+  }
+}
+
+// Get a shared watchlist by its share token
+export async function getSharedWatchlist(token: string) {
+  try {
+    const response = await axios.get(`${API_URL}/watchlists/shared/${token}`);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error fetching shared watchlist:', error);
+    throw error;
+  }
+}
+
+// Save a copy of a shared watchlist
+export async function copySharedWatchlist(token: string) {
+  try {
+    const response = await axios.post(`${API_URL}/watchlists/shared/${token}/copy`);
+    return response.data.watchlist;
+  } catch (error) {
+    console.error('Error copying watchlist:', error);
+    throw error;
+  }
+}
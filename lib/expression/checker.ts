@@ -0,0 +1,291 @@
+import { ConditionNode, IndicatorName, IndicatorSpec, PriceSource } from '../../types';
+import { ExpressionError } from './errors';
+import { ArgumentNode, CallNode, ComparisonNode, ExpressionNode, OperandNode } from './parser';
+
+// The type of an operand once its name and arguments have been checked
+type ResolvedOperand =
+  | { type: 'number'; value: number }
+  | { type: 'series'; spec: IndicatorSpec }
+  | { type: 'condition'; node: ConditionNode };
+
+type Signature = {
+  indicator?: IndicatorName;
+  condition?: 'stopLoss' | 'takeProfit';
+  params: Array<'period' | 'fastPeriod' | 'slowPeriod' | 'signalPeriod' | 'stdDev' | 'kPeriod' | 'dPeriod' | 'value'>;
+  required?: number; // leading params that must be given
+  source?: boolean; // accepts a price series as its first argument
+  outputs?: string[];
+};
+
+// Functions the language understands, keyed by lower-case name
+const FUNCTIONS: Record<string, Signature> = {
+  sma: { indicator: 'sma', params: ['period'], source: true },
+  ema: { indicator: 'ema', params: ['period'], source: true },
+  rsi: { indicator: 'rsi', params: ['period'], source: true },
+  roc: { indicator: 'roc', params: ['period'], source: true },
+  atr: { indicator: 'atr', params: ['period'] },
+  macd: { indicator: 'macd', params: ['fastPeriod', 'slowPeriod', 'signalPeriod'], source: true, outputs: ['line', 'signal', 'histogram'] },
+  bollinger: { indicator: 'bollinger', params: ['period', 'stdDev'], source: true, outputs: ['upper', 'middle', 'lower'] },
+  stochastic: { indicator: 'stochastic', params: ['kPeriod', 'dPeriod'], outputs: ['k', 'd'] },
+  pricechange: { indicator: 'priceChange', params: [], source: true },
+  stoploss: { condition: 'stopLoss', params: ['value'], required: 1 },
+  takeprofit: { condition: 'takeProfit', params: ['value'], required: 1 },
+};
+
+const ALIASES: Record<string, string> = {
+  bb: 'bollinger',
+  stoch: 'stochastic',
+};
+
+const PRICE_SOURCES: PriceSource[] = ['open', 'high', 'low', 'close', 'volume'];
+
+// Operators with their operands swapped: 30 < rsi  =>  rsi > 30
+const FLIPPED_OPERATORS: Record<string, string> = {
+  '>': '<',
+  '<': '>',
+  '>=': '<=',
+  '<=': '>=',
+  '==': '==',
+  '!=': '!=',
+  crossesAbove: 'crossesBelow',
+  crossesBelow: 'crossesAbove',
+};
+
+// Type checks a syntax tree and lowers it to the condition tree the
+// simulation engine evaluates. Errors are collected rather than thrown so the
+// editor can show all of them at once.
+export class Checker {
+  errors: ExpressionError[] = [];
+
+  check(node: ExpressionNode): ConditionNode | undefined {
+    switch (node.kind) {
+      case 'and':
+      case 'or': {
+        const children = node.operands.map(operand => this.check(operand));
+        if (children.some(child => !child)) return undefined;
+
+        // Flatten nested groups of the same kind: a and (b and c) => all[a, b, c]
+        const flattened: ConditionNode[] = [];
+        (children as ConditionNode[]).forEach(child => {
+          if (node.kind === 'and' && 'all' in child) flattened.push(...child.all);
+          else if (node.kind === 'or' && 'any' in child) flattened.push(...child.any);
+          else flattened.push(child);
+        });
+
+        return node.kind === 'and' ? { all: flattened } : { any: flattened };
+      }
+      case 'not': {
+        const operand = this.check(node.operand);
+        return operand && { not: operand };
+      }
+      case 'comparison':
+        return this.checkComparison(node);
+      case 'operand': {
+        const resolved = this.resolveOperand(node);
+        if (!resolved) return undefined;
+        if (resolved.type !== 'condition') {
+          this.error(`Expected a condition such as 'rsi(14) < 30', not a ${resolved.type === 'number' ? 'number' : 'value'}`, node);
+          return undefined;
+        }
+        return resolved.node;
+      }
+    }
+  }
+
+  private checkComparison(node: ComparisonNode): ConditionNode | undefined {
+    const left = this.resolveOperand(node.left);
+    const right = this.resolveOperand(node.right);
+    if (!left || !right) return undefined;
+
+    if (left.type === 'condition' || right.type === 'condition') {
+      this.error(`'${node.operator}' compares values, but ${left.type === 'condition' ? 'its left' : 'its right'} side is a condition`, node.operatorSpan);
+      return undefined;
+    }
+
+    if (left.type === 'number' && right.type === 'number') {
+      this.error('A comparison needs at least one indicator or price field', node);
+      return undefined;
+    }
+
+    // Keep the indicator on the left, as the engine expects
+    let operator = node.operator;
+    let indicator: IndicatorSpec;
+    let other: ResolvedOperand;
+    if (left.type === 'series') {
+      indicator = left.spec;
+      other = right;
+    } else {
+      indicator = (right as { spec: IndicatorSpec }).spec;
+      other = left;
+      operator = FLIPPED_OPERATORS[operator];
+    }
+
+    const negate = operator === '!=';
+    const condition = {
+      ...indicator,
+      operator: negate ? '==' : operator,
+      ...(other.type === 'series' ? { compareTo: other.spec } : { value: other.value }),
+    } as ConditionNode;
+
+    return negate ? { not: condition } : condition;
+  }
+
+  private resolveOperand(node: OperandNode): ResolvedOperand | undefined {
+    const { target, output } = node;
+
+    if (target.kind === 'number') {
+      if (output) {
+        this.error('Numbers have no outputs', output);
+        return undefined;
+      }
+      return { type: 'number', value: target.value };
+    }
+
+    const name = target.name;
+    const lowered = name.toLowerCase();
+
+    // Bare price fields: close, high, volume, ...
+    if (target.kind === 'identifier' && (lowered === 'price' || PRICE_SOURCES.includes(lowered as PriceSource))) {
+      if (output) {
+        this.error(`'${name}' has no outputs`, output);
+        return undefined;
+      }
+      return { type: 'series', spec: { indicator: lowered as IndicatorName } };
+    }
+
+    const signature = FUNCTIONS[ALIASES[lowered] || lowered];
+    if (!signature) {
+      this.error(`Unknown indicator '${name}'`, target.kind === 'call' ? target.nameSpan : target);
+      return undefined;
+    }
+
+    const call: CallNode = target.kind === 'call'
+      ? target
+      : { kind: 'call', name, nameSpan: target, args: [], start: target.start, end: target.end };
+
+    return this.resolveCall(call, signature, output);
+  }
+
+  private resolveCall(
+    call: CallNode,
+    signature: Signature,
+    output?: { name: string; start: number; end: number }
+  ): ResolvedOperand | undefined {
+    const errorCount = this.errors.length;
+    const values: Record<string, number> = {};
+    let source: PriceSource | undefined;
+    let positional = 0;
+
+    call.args.forEach((arg, index) => {
+      // A leading price field selects the series, e.g. sma(high, 20)
+      if (!arg.name && arg.value.kind === 'identifier') {
+        const field = arg.value.name.toLowerCase() as PriceSource;
+        if (signature.source && index === 0 && PRICE_SOURCES.includes(field)) {
+          source = field;
+        } else {
+          this.error(`Unexpected '${arg.value.name}', expected a number`, arg.value);
+        }
+        return;
+      }
+
+      if (arg.name) {
+        this.resolveNamedArgument(arg, signature, values, value => {
+          source = value;
+        });
+        return;
+      }
+
+      if (positional >= signature.params.length) {
+        this.error(
+          `'${call.name}' takes at most ${signature.params.length} number${signature.params.length === 1 ? '' : 's'}`,
+          arg
+        );
+        return;
+      }
+
+      const param = signature.params[positional++];
+      this.setParameter(param, arg, values);
+    });
+
+    const missing = signature.params.slice(0, signature.required || 0).filter(param => values[param] === undefined);
+    if (missing.length > 0) {
+      this.error(`'${call.name}' is missing its ${missing.map(param => `'${param}'`).join(', ')} argument`, call);
+    }
+
+    if (output && (!signature.outputs || !signature.outputs.includes(output.name))) {
+      this.error(
+        signature.outputs
+          ? `'${call.name}' has no output '${output.name}' (expected ${signature.outputs.join(', ')})`
+          : `'${call.name}' has no outputs`,
+        output
+      );
+    }
+
+    if (this.errors.length > errorCount) {
+      return undefined;
+    }
+
+    if (signature.condition) {
+      return { type: 'condition', node: { type: signature.condition, value: values.value } };
+    }
+
+    const spec: IndicatorSpec = { indicator: signature.indicator!, ...values };
+    if (source && source !== 'close') spec.source = source;
+    if (output) spec.output = output.name as IndicatorSpec['output'];
+
+    return { type: 'series', spec };
+  }
+
+  private resolveNamedArgument(
+    arg: ArgumentNode,
+    signature: Signature,
+    values: Record<string, number>,
+    setSource: (source: PriceSource) => void
+  ): void {
+    const name = arg.name!;
+
+    if (name === 'source' && signature.source) {
+      const field = arg.value.kind === 'identifier' ? (arg.value.name.toLowerCase() as PriceSource) : undefined;
+      if (!field || !PRICE_SOURCES.includes(field)) {
+        this.error(`'source' must be one of ${PRICE_SOURCES.join(', ')}`, arg.value);
+        return;
+      }
+      setSource(field);
+      return;
+    }
+
+    const param = signature.params.find(p => p === name);
+    if (!param) {
+      this.error(`Unknown argument '${name}'`, arg);
+      return;
+    }
+
+    this.setParameter(param, arg, values);
+  }
+
+  private setParameter(param: Signature['params'][number], arg: ArgumentNode, values: Record<string, number>): void {
+    if (arg.value.kind !== 'number') {
+      this.error(`'${param}' must be a number`, arg.value);
+      return;
+    }
+
+    const value = arg.value.value;
+    const isPeriod = param !== 'stdDev' && param !== 'value';
+
+    if (isPeriod && (!Number.isInteger(value) || value < 1)) {
+      this.error(`'${param}' must be a whole number of bars of at least 1`, arg.value);
+      return;
+    }
+
+    if (!isPeriod && value <= 0) {
+      this.error(`'${param}' must be greater than 0`, arg.value);
+      return;
+    }
+
+    values[param] = value;
+  }
+
+  private error(message: string, span: { start: number; end: number }): void {
+    this.errors.push(new ExpressionError(message, span.start, span.end));
+  }
+}
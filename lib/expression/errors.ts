@@ -0,0 +1,37 @@
+// A problem found while parsing or checking an expression, located by
+// character offsets into the source
+export class ExpressionError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.start = start;
+    this.end = end;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+  }
+}
+
+export type ExpressionDiagnostic = {
+  message: string;
+  start: number;
+  end: number;
+  line: number; // 1-based
+  column: number; // 1-based
+};
+
+// Convert an error's offsets into a diagnostic with line and column numbers
+export function toDiagnostic(source: string, error: ExpressionError): ExpressionDiagnostic {
+  const before = source.slice(0, error.start);
+  const lines = before.split('\n');
+
+  return {
+    message: error.message,
+    start: error.start,
+    end: error.end,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  };
+}
@@ -0,0 +1,93 @@
+import { ConditionNode, IndicatorSpec } from '../../types';
+
+// Positional parameter order for each indicator, matching the checker
+const PARAMETERS: Record<string, Array<keyof IndicatorSpec>> = {
+  sma: ['period'],
+  ema: ['period'],
+  rsi: ['period'],
+  roc: ['period'],
+  atr: ['period'],
+  macd: ['fastPeriod', 'slowPeriod', 'signalPeriod'],
+  bollinger: ['period', 'stdDev'],
+  stochastic: ['kPeriod', 'dPeriod'],
+  priceChange: [],
+};
+
+const PRICE_FIELDS = ['price', 'open', 'high', 'low', 'close', 'volume'];
+
+// Binding strength of each group, used to decide where parentheses are needed
+const PRECEDENCE = { or: 1, and: 2, not: 3 };
+
+// Format an indicator spec as it would be written in an expression
+function formatIndicator(spec: IndicatorSpec): string | undefined {
+  if (PRICE_FIELDS.includes(spec.indicator)) {
+    return spec.indicator;
+  }
+
+  const params = PARAMETERS[spec.indicator];
+  if (!params) {
+    return undefined;
+  }
+
+  const args: string[] = [];
+  if (spec.source && spec.source !== 'close') {
+    args.push(spec.source);
+  }
+
+  // Positional while the parameters are given in order, named after a gap
+  let named = false;
+  params.forEach(param => {
+    const value = spec[param];
+    if (value === undefined) {
+      named = true;
+    } else {
+      args.push(named ? `${param}=${value}` : String(value));
+    }
+  });
+
+  const call = args.length > 0 ? `${spec.indicator}(${args.join(', ')})` : spec.indicator;
+  return spec.output ? `${call}.${spec.output}` : call;
+}
+
+// Format a condition tree as expression text, or undefined if the tree uses
+// something the language cannot express
+export function formatRules(node: ConditionNode, parentPrecedence = 0): string | undefined {
+  if ('all' in node || 'any' in node) {
+    const kind = 'all' in node ? 'and' : 'or';
+    const children = 'all' in node ? node.all : node.any;
+    if (!Array.isArray(children) || children.length === 0) {
+      return undefined;
+    }
+
+    const parts = children.map(child => formatRules(child, PRECEDENCE[kind]));
+    if (parts.some(part => part === undefined)) {
+      return undefined;
+    }
+
+    const text = parts.join(` ${kind} `);
+    return children.length > 1 && parentPrecedence > PRECEDENCE[kind] ? `(${text})` : text;
+  }
+
+  if ('not' in node) {
+    const operand = formatRules(node.not, PRECEDENCE.not);
+    return operand === undefined ? undefined : `not ${operand}`;
+  }
+
+  if ('type' in node) {
+    return `${node.type}(${node.value})`;
+  }
+
+  const left = formatIndicator(node);
+  const right = node.compareTo ? formatIndicator(node.compareTo) : node.value !== undefined ? String(node.value) : undefined;
+  if (left === undefined || right === undefined) {
+    return undefined;
+  }
+
+  const operator = node.operator === 'crossesAbove'
+    ? 'crosses above'
+    : node.operator === 'crossesBelow'
+    ? 'crosses below'
+    : node.operator;
+
+  return `${left} ${operator} ${right}`;
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileExpression, decompileRules } from '.';
+import { ConditionNode } from '../../types';
+
+describe('compileExpression', () => {
+  it('compiles comparisons joined by and into an all group', () => {
+    assert.deepEqual(compileExpression('close > sma(20) and rsi(14) < 30'), {
+      rules: {
+        all: [
+          { indicator: 'close', operator: '>', compareTo: { indicator: 'sma', period: 20 } },
+          { indicator: 'rsi', period: 14, operator: '<', value: 30 },
+        ],
+      },
+      errors: [],
+    });
+  });
+
+  it('rewrites != as not ==', () => {
+    assert.deepEqual(compileExpression('close != 5').rules, {
+      not: { indicator: 'close', operator: '==', value: 5 },
+    });
+  });
+
+  it('reads a minus sign before a number as a negative number', () => {
+    assert.deepEqual(compileExpression('priceChange < -2').rules, {
+      indicator: 'priceChange',
+      operator: '<',
+      value: -2,
+    });
+  });
+
+  it('reports a parse error at the end of an unfinished expression', () => {
+    const [error] = compileExpression('close >').errors;
+    assert.equal(error.message, 'Expected an indicator, price field or number but found end of expression');
+    assert.deepEqual([error.start, error.end, error.line, error.column], [7, 7, 1, 8]);
+  });
+
+  it('reports an unknown indicator at its name, with its line and column', () => {
+    const [error] = compileExpression('rsi(14) <\n  bogus').errors;
+    assert.equal(error.message, "Unknown indicator 'bogus'");
+    assert.deepEqual([error.start, error.end, error.line, error.column], [12, 17, 2, 3]);
+  });
+
+  it('reports a period below one at the argument', () => {
+    const [error] = compileExpression('close > sma(0)').errors;
+    assert.match(error.message, /'period' must be a whole number of bars of at least 1/);
+    assert.deepEqual([error.start, error.end], [12, 13]);
+  });
+});
+
+describe('decompileRules', () => {
+  const roundTrips: ConditionNode[] = [
+    { indicator: 'priceChange', operator: '<', value: -2 },
+    { not: { indicator: 'close', operator: '==', value: 5 } },
+    { indicator: 'close', operator: 'crossesAbove', compareTo: { indicator: 'sma', period: 20 } },
+    {
+      any: [
+        { indicator: 'rsi', period: 14, operator: '<', value: 30 },
+        { all: [{ indicator: 'volume', operator: '>', value: 1000000 }, { indicator: 'close', operator: '>', value: 10 }] },
+      ],
+    },
+  ];
+
+  roundTrips.forEach(rules => {
+    it(`gives text that compiles back to ${JSON.stringify(rules)}`, () => {
+      const text = decompileRules(rules);
+      assert.ok(text !== undefined);
+      assert.deepEqual(compileExpression(text).rules, rules);
+    });
+  });
+
+  it('gives no text for rules the expression language cannot express', () => {
+    const rules = { indicator: 'close', operator: '>', value: 10, label: 'extra' } as ConditionNode;
+    assert.equal(decompileRules(rules), undefined);
+  });
+});
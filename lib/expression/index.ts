@@ -0,0 +1,66 @@
+import { ConditionNode } from '../../types';
+import { Checker } from './checker';
+import { ExpressionDiagnostic, ExpressionError, toDiagnostic } from './errors';
+import { formatRules } from './format';
+import { parseExpression } from './parser';
+
+export { ExpressionError } from './errors';
+export type { ExpressionDiagnostic } from './errors';
+export { formatRules } from './format';
+
+export type CompileResult = {
+  rules?: ConditionNode;
+  errors: ExpressionDiagnostic[];
+};
+
+// Parse, type check and compile a rule expression such as
+// `close > sma(close, 20) and rsi(14) < 30` into a condition tree
+export function compileExpression(source: string): CompileResult {
+  try {
+    const ast = parseExpression(source);
+    const checker = new Checker();
+    const rules = checker.check(ast);
+
+    if (checker.errors.length > 0 || !rules) {
+      return { errors: checker.errors.map(error => toDiagnostic(source, error)) };
+    }
+
+    return { rules, errors: [] };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return { errors: [toDiagnostic(source, error)] };
+    }
+    throw error;
+  }
+}
+
+// Canonical JSON for a condition tree: keys sorted, unset values dropped and
+// single-condition groups unwrapped, as the compiler writes them
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    const group = value.all || value.any;
+    if (Array.isArray(group) && group.length === 1 && Object.keys(value).length === 1) {
+      return canonicalize(group[0]);
+    }
+    return Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .reduce((result: Record<string, any>, key) => ({ ...result, [key]: canonicalize(value[key]) }), {});
+  }
+  return value;
+}
+
+// Format a condition tree as expression text, but only if compiling that text
+// gives back the same rules, so switching to the expression never changes them
+export function decompileRules(rules: ConditionNode): string | undefined {
+  const text = formatRules(rules);
+  if (text === undefined) {
+    return undefined;
+  }
+
+  const compiled = compileExpression(text).rules;
+  return compiled && JSON.stringify(canonicalize(compiled)) === JSON.stringify(canonicalize(rules)) ? text : undefined;
+}
@@ -0,0 +1,97 @@
+import { ExpressionError } from './errors';
+
+export type TokenType =
+  | 'number'
+  | 'identifier'
+  | 'operator'
+  | 'and'
+  | 'or'
+  | 'not'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'dot'
+  | 'equals'
+  | 'eof';
+
+export type Token = {
+  type: TokenType;
+  text: string;
+  start: number; // offset of the first character
+  end: number; // offset just past the last character
+};
+
+const KEYWORDS: Record<string, TokenType> = {
+  and: 'and',
+  or: 'or',
+  not: 'not',
+};
+
+// Longest operators first so ">=" is not read as ">" followed by "="
+const OPERATORS = ['>=', '<=', '==', '!=', '&&', '||', '>', '<', '!'];
+
+// Split an expression into tokens, throwing an ExpressionError at the first
+// character that cannot start a token
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+
+    // A minus sign directly before a number makes it negative (there is no subtraction)
+    const numberStart = char === '-' ? position + 1 : position;
+    if (/[0-9]/.test(source[numberStart] || '') || (source[numberStart] === '.' && /[0-9]/.test(source[numberStart + 1] || ''))) {
+      position = numberStart;
+      while (position < source.length && /[0-9_]/.test(source[position])) position++;
+      if (source[position] === '.' && /[0-9]/.test(source[position + 1] || '')) {
+        position++;
+        while (position < source.length && /[0-9_]/.test(source[position])) position++;
+      }
+      tokens.push({ type: 'number', text: source.slice(start, position), start, end: position });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (position < source.length && /[A-Za-z0-9_]/.test(source[position])) position++;
+      const text = source.slice(start, position);
+      const keyword = KEYWORDS[text.toLowerCase()];
+      tokens.push({ type: keyword || 'identifier', text, start, end: position });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, position));
+    if (operator) {
+      position += operator.length;
+      const type: TokenType =
+        operator === '&&' ? 'and' : operator === '||' ? 'or' : operator === '!' ? 'not' : 'operator';
+      tokens.push({ type, text: operator, start, end: position });
+      continue;
+    }
+
+    const punctuation: Record<string, TokenType> = {
+      '(': 'lparen',
+      ')': 'rparen',
+      ',': 'comma',
+      '.': 'dot',
+      '=': 'equals',
+    };
+    if (punctuation[char]) {
+      position++;
+      tokens.push({ type: punctuation[char], text: char, start, end: position });
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, start, start + 1);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
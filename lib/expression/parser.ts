@@ -0,0 +1,280 @@
+import { ExpressionError } from './errors';
+import { Token, TokenType, tokenize } from './lexer';
+
+// Syntax tree produced by the parser. Every node keeps its source span so the
+// checker can point at the offending text.
+type Span = { start: number; end: number };
+
+export type NumberNode = Span & { kind: 'number'; value: number };
+
+export type IdentifierNode = Span & { kind: 'identifier'; name: string };
+
+export type ArgumentNode = Span & {
+  name?: string; // set for named arguments, e.g. period=20
+  value: NumberNode | IdentifierNode;
+};
+
+export type CallNode = Span & {
+  kind: 'call';
+  name: string;
+  nameSpan: Span;
+  args: ArgumentNode[];
+};
+
+// An operand optionally followed by an output selector, e.g. macd(12, 26, 9).signal
+export type OperandNode = Span & {
+  kind: 'operand';
+  target: NumberNode | IdentifierNode | CallNode;
+  output?: IdentifierNode;
+};
+
+export type ComparisonNode = Span & {
+  kind: 'comparison';
+  operator: string;
+  operatorSpan: Span;
+  left: OperandNode;
+  right: OperandNode;
+};
+
+export type GroupNode = Span & { kind: 'and' | 'or'; operands: ExpressionNode[] };
+
+export type NotNode = Span & { kind: 'not'; operand: ExpressionNode };
+
+export type ExpressionNode = ComparisonNode | GroupNode | NotNode | OperandNode;
+
+const CROSS_OPERATORS: Record<string, string> = {
+  crossesabove: 'crossesAbove',
+  crosses_above: 'crossesAbove',
+  crossesbelow: 'crossesBelow',
+  crosses_below: 'crossesBelow',
+};
+
+// Recursive descent parser for the rule expression language:
+//
+//   expression := or
+//   or         := and ('or' and)*
+//   and        := unary ('and' unary)*
+//   unary      := 'not' unary | '(' expression ')' | operand (compare operand)?
+//   compare    := '>' | '<' | '>=' | '<=' | '==' | '!=' | 'crosses above' | 'crosses below'
+//   operand    := (number | identifier | call) ('.' identifier)?
+//   call       := identifier '(' (argument (',' argument)*)? ')'
+//   argument   := (identifier '=')? (number | identifier)
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionError('Expression is empty', 0, 0);
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected '${next.text}', expected 'and', 'or' or end of expression`, next.start, next.end);
+    }
+
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.text}'`;
+      throw new ExpressionError(`Expected ${description} but found ${found}`, token.start, token.end);
+    }
+    return this.advance();
+  }
+
+  private parseOr(): ExpressionNode {
+    return this.parseGroup('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): ExpressionNode {
+    return this.parseGroup('and', () => this.parseUnary());
+  }
+
+  private parseGroup(kind: 'and' | 'or', parseOperand: () => ExpressionNode): ExpressionNode {
+    const first = parseOperand();
+    const operands = [first];
+
+    while (this.peek().type === kind) {
+      this.advance();
+      operands.push(parseOperand());
+    }
+
+    if (operands.length === 1) {
+      return first;
+    }
+
+    return { kind, operands, start: first.start, end: operands[operands.length - 1].end };
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'not') {
+      this.advance();
+      const operand = this.parseUnary();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+
+    if (token.type === 'lparen') {
+      this.advance();
+      const inner = this.parseOr();
+      const close = this.expect('rparen', "')'");
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    const left = this.parseOperand();
+    const operator = this.parseComparisonOperator();
+    if (!operator) {
+      return left;
+    }
+
+    const right = this.parseOperand();
+    return {
+      kind: 'comparison',
+      operator: operator.operator,
+      operatorSpan: { start: operator.start, end: operator.end },
+      left,
+      right,
+      start: left.start,
+      end: right.end,
+    };
+  }
+
+  private parseComparisonOperator(): { operator: string; start: number; end: number } | undefined {
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.advance();
+      return { operator: token.text, start: token.start, end: token.end };
+    }
+
+    if (token.type !== 'identifier') {
+      return undefined;
+    }
+
+    const name = token.text.toLowerCase();
+    if (CROSS_OPERATORS[name]) {
+      this.advance();
+      return { operator: CROSS_OPERATORS[name], start: token.start, end: token.end };
+    }
+
+    if (name === 'crosses') {
+      this.advance();
+      const direction = this.expect('identifier', "'above' or 'below' after 'crosses'");
+      const lowered = direction.text.toLowerCase();
+      if (lowered !== 'above' && lowered !== 'below') {
+        throw new ExpressionError(`Expected 'above' or 'below' after 'crosses'`, direction.start, direction.end);
+      }
+      return {
+        operator: lowered === 'above' ? 'crossesAbove' : 'crossesBelow',
+        start: token.start,
+        end: direction.end,
+      };
+    }
+
+    return undefined;
+  }
+
+  private parseOperand(): OperandNode {
+    const token = this.peek();
+    let target: NumberNode | IdentifierNode | CallNode;
+
+    if (token.type === 'number') {
+      target = this.parseNumber();
+    } else if (token.type === 'identifier') {
+      this.advance();
+      target = this.peek().type === 'lparen'
+        ? this.parseCall(token)
+        : { kind: 'identifier', name: token.text, start: token.start, end: token.end };
+    } else {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.text}'`;
+      throw new ExpressionError(`Expected an indicator, price field or number but found ${found}`, token.start, token.end);
+    }
+
+    let output: IdentifierNode | undefined;
+    if (this.peek().type === 'dot') {
+      this.advance();
+      const outputToken = this.expect('identifier', 'an output name after \'.\'');
+      output = { kind: 'identifier', name: outputToken.text, start: outputToken.start, end: outputToken.end };
+    }
+
+    return { kind: 'operand', target, output, start: target.start, end: output ? output.end : target.end };
+  }
+
+  private parseNumber(): NumberNode {
+    const token = this.advance();
+    return { kind: 'number', value: parseFloat(token.text.replace(/_/g, '')), start: token.start, end: token.end };
+  }
+
+  private parseCall(nameToken: Token): CallNode {
+    this.expect('lparen', "'('");
+    const args: ArgumentNode[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      args.push(this.parseArgument());
+      while (this.peek().type === 'comma') {
+        this.advance();
+        args.push(this.parseArgument());
+      }
+    }
+
+    const close = this.expect('rparen', "',' or ')'");
+    return {
+      kind: 'call',
+      name: nameToken.text,
+      nameSpan: { start: nameToken.start, end: nameToken.end },
+      args,
+      start: nameToken.start,
+      end: close.end,
+    };
+  }
+
+  private parseArgument(): ArgumentNode {
+    const token = this.peek();
+    let name: string | undefined;
+
+    if (token.type === 'identifier' && this.peek(1).type === 'equals') {
+      name = token.text;
+      this.advance();
+      this.advance();
+    }
+
+    const valueToken = this.peek();
+    let value: NumberNode | IdentifierNode;
+    if (valueToken.type === 'number') {
+      value = this.parseNumber();
+    } else if (valueToken.type === 'identifier') {
+      this.advance();
+      value = { kind: 'identifier', name: valueToken.text, start: valueToken.start, end: valueToken.end };
+    } else {
+      const found = valueToken.type === 'eof' ? 'end of expression' : `'${valueToken.text}'`;
+      throw new ExpressionError(`Expected an argument but found ${found}`, valueToken.start, valueToken.end);
+    }
+
+    return { name, value, start: token.start, end: value.end };
+  }
+}
+
+// Parse an expression into a syntax tree, throwing an ExpressionError on the
+// first syntax error
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse();
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+const optionalNumber = z.number().min(0, 'Must not be negative').optional();
+
+const loading = z.number().min(0).max(1, 'Loadings cannot exceed 1').optional();
+
+// Names typed as a comma-separated list, with blanks dropped
+const nameList = z.array(z.string()).transform((names) => names.map((name) => name.trim()).filter(Boolean)).optional();
+
+const priceModelName = z.enum(['randomWalk', 'gbm', 'garch', 'jumpDiffusion', 'meanReversion']);
+
+// Parameters of a price model, which a symbol may also override
+const priceModelSettings = {
+  drift: z.number().optional(),
+  volatility: optionalNumber,
+  garchAlpha: z.number().min(0).max(1).optional(),
+  garchBeta: z.number().min(0).max(1).optional(),
+  jumpIntensity: optionalNumber,
+  jumpMean: z.number().gt(-100, 'A jump cannot lose more than 100%').optional(),
+  jumpVolatility: optionalNumber,
+  meanReversionSpeed: optionalNumber,
+  meanPrice: z.number().positive().optional(),
+};
+
+// Schema for the simulation settings beyond the basic ones (dates, capital,
+// symbols and position limits). The strategy forms spread it into their
+// simulationConfig, and the server checks the settings it is sent against it.
+export const advancedSimulationConfigSchema = {
+  universe: z.object({
+    source: z.enum(['symbols', 'watchlist', 'all']),
+    watchlistId: z.string().optional(),
+    sectors: nameList,
+    exchanges: nameList,
+  }).refine(
+    (universe) => universe.source !== 'watchlist' || Boolean(universe.watchlistId),
+    { message: 'Choose a watchlist', path: ['watchlistId'] }
+  ).optional(),
+  fillModel: z.enum(['sameBarClose', 'nextBarOpen', 'nextBarVwap']).optional(),
+  sizing: z.object({
+    model: z.enum(['percentOfInitialCapital', 'percentOfEquity', 'fixedAmount', 'fixedRisk', 'volatilityTarget', 'kelly']),
+    amount: optionalNumber,
+    riskPercent: optionalNumber,
+    atrPeriod: z.number().int().min(1).optional(),
+    kellyFraction: z.number().min(0).max(1, 'Kelly fraction cannot exceed 1').optional(),
+    kellyLookback: z.number().int().min(1).optional(),
+    kellyMinTrades: z.number().int().min(1).optional(),
+  }).optional(),
+  riskFreeRate: z.number().min(0, 'Must not be negative').optional(),
+  dataSeed: z.number().int('Seed must be a whole number').optional(),
+  priceModel: z.object({
+    model: priceModelName,
+    ...priceModelSettings,
+    symbols: z.record(z.object({ model: priceModelName.optional(), ...priceModelSettings })).optional(),
+    correlation: z.object({
+      marketLoading: loading,
+      sectorLoading: loading,
+      factorCorrelations: z.record(z.record(z.number().min(-1).max(1, 'Correlations cannot exceed 1'))).optional(),
+      sectors: z.record(z.string()).optional(),
+      loadings: z.record(z.object({ market: loading, sector: loading })).optional(),
+    }).passthrough().optional(),
+  }).passthrough().refine(
+    (model) => (model.garchAlpha ?? 0.1) + (model.garchBeta ?? 0.85) < 1,
+    { message: 'GARCH alpha and beta must add up to less than 1', path: ['garchBeta'] }
+  ).optional(),
+  dataProvider: z.string().optional(),
+  calendar: z.enum(['NYSE', 'NSE', 'LSE', 'crypto']).optional(),
+  benchmark: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('symbol'), symbol: z.string().min(1, 'Enter a benchmark symbol') }),
+    z.object({ type: z.literal('equalWeight') }),
+  ]).optional(),
+  costs: z.object({
+    commissionPerTrade: optionalNumber,
+    commissionPerShare: optionalNumber,
+    commissionPercent: optionalNumber,
+    minCommission: optionalNumber,
+    slippageBps: optionalNumber,
+    slippageModel: z.enum(['fixed', 'volatility']).optional(),
+    volatilityLookback: z.number().int().min(2).optional(),
+  }).optional(),
+  riskLimits: z.object({
+    maxPositionsPerSymbol: z.number().int('Must be a whole number').min(1, 'Must be at least 1').optional(),
+    maxSectorExposure: optionalNumber,
+    maxGrossExposure: optionalNumber,
+    maxCorrelation: z.number().min(-1).max(1, 'Correlations cannot exceed 1').optional(),
+    correlationLookback: z.number().int().min(10, 'Use at least 10 days').optional(),
+  }).optional(),
+};
+
+export const advancedSimulationConfig = z.object(advancedSimulationConfigSchema);
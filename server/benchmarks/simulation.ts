@@ -0,0 +1,94 @@
+import { performance } from 'perf_hooks';
+import { runSimulation } from '../services/simulation';
+import { Strategy } from '../../types';
+
+// Benchmark the simulation engine on a large synthetic universe.
+//
+//   npm run bench -- [symbols...] [--years N]
+//
+// Runs the same strategy over universes of increasing size and reports the
+// time per symbol-day, which should stay roughly flat as the universe grows.
+//
+// To compare engine versions, run this script unchanged in a worktree of each
+// commit. The speed-up from indexing bars by date (98e7015) was measured
+// against its parent this way:
+//
+//   git worktree add ../before 98e7015~1
+//   ln -s "$PWD/node_modules" ../before/node_modules
+//   cp server/benchmarks/simulation.ts ../before/server/benchmarks/
+//   cd ../before && npx ts-node --transpile-only --project tsconfig.server.json \
+//     -O '{"moduleResolution":"node"}' server/benchmarks/simulation.ts 500
+//
+// and the same for 98e7015 itself. Those trees predate the server tsconfig's
+// module resolution and the dataSeed setting, so the run overrides one and
+// skips type-checking for the other; their bars come from a random seed. On
+// 500 symbols over 5 years the parent took 64.2s (98 µs per symbol-day) and
+// 98e7015 7.0s (10.8 µs) in one run each on a single core.
+
+const DEFAULT_UNIVERSE_SIZES = [50, 100, 250, 500];
+const DEFAULT_YEARS = 5;
+
+// Parse the universe sizes and the --years option from the command line
+function parseArgs(args: string[]): { sizes: number[]; years: number } {
+  let years = DEFAULT_YEARS;
+  const sizes: number[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--years') {
+      years = Number(args[++i]);
+    } else {
+      sizes.push(Number(args[i]));
+    }
+  }
+
+  return { sizes: sizes.length > 0 ? sizes : DEFAULT_UNIVERSE_SIZES, years };
+}
+
+// A strategy that trades often enough to keep every position slot busy
+function createStrategy(symbolCount: number, years: number): Strategy {
+  const symbols = Array.from({ length: symbolCount }, (_, i) => `SYN${String(i + 1).padStart(4, '0')}`);
+
+  return {
+    name: `Benchmark ${symbolCount} symbols`,
+    scannerConfig: { expression: 'volume > 2000000' },
+    buyConfig: { expression: 'close crosses above sma(50)', rankBy: 'momentum' },
+    sellConfig: { exits: { stopLoss: 5, takeProfit: 10, maxHoldingDays: 20 } },
+    simulationConfig: {
+      startDate: `${2024 - years}-01-01`,
+      endDate: '2023-12-31',
+      initialCapital: 1000000,
+      symbols,
+      maxPositions: 20,
+      positionSize: 5,
+      fillModel: 'nextBarOpen',
+      dataSeed: 1,
+    },
+    status: 'saved',
+  };
+}
+
+async function main() {
+  const { sizes, years } = parseArgs(process.argv.slice(2));
+
+  console.log(`Simulating ${years} year(s) of daily bars\n`);
+  console.log('symbols  trades     time (ms)  per symbol-day (µs)');
+
+  for (const size of sizes) {
+    const strategy = createStrategy(size, years);
+
+    const started = performance.now();
+    const results = await runSimulation(strategy);
+    const elapsed = performance.now() - started;
+
+    const symbolDays = size * results.equityCurve.length;
+    console.log(
+      `${String(size).padStart(7)}  ${String(results.trades.length).padStart(6)}  ` +
+      `${elapsed.toFixed(0).padStart(12)}  ${((elapsed * 1000) / symbolDays).toFixed(2).padStart(19)}`
+    );
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
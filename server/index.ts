@@ -2,6 +2,10 @@ import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
 import strategyRoutes from './routes/strategy';
+import dataRoutes from './routes/data';
+import symbolRoutes from './routes/symbols';
+import watchlistRoutes from './routes/watchlists';
+import { seedSymbols } from './services/symbols';
 
 // Create Express app
 const app = express();
@@ -9,14 +13,18 @@ const PORT = process.env.PORT || 5000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Price data uploads arrive as JSON, so allow bodies well beyond the default 100kb
+app.use(express.json({ limit: '25mb' }));
 
 // Connect to MongoDB (using in-memory database for demo purposes)
 // In a real application, you would use a real MongoDB connection string
 const MONGO_URI = process.env.MONGO_URI || 'mongodb://localhost:27017/trading-simulator';
 
 mongoose.connect(MONGO_URI)
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    seedSymbols().catch(err => console.error('Error seeding symbols:', err));
+  })
   .catch(err => {
     console.error('MongoDB connection error:', err);
     // Use in-memory MongoDB-like store for demo purposes
@@ -25,6 +33,9 @@ mongoose.connect(MONGO_URI)
 
 // Routes
 app.use('/api/strategy', strategyRoutes);
+app.use('/api/data', dataRoutes);
+app.use('/api/symbols', symbolRoutes);
+app.use('/api/watchlists', watchlistRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
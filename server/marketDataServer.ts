@@ -0,0 +1,84 @@
+import express from 'express';
+import { createSyntheticProvider } from './services/providers/synthetic';
+import { getDefaultDataSeed } from './services/financeApi';
+import { isTradingCalendar } from './services/calendars';
+import { PriceModel } from '../types';
+
+// Local stand-in for a remote market data server, serving generated data over
+// the protocol the http provider speaks (see services/providers/http.ts).
+// Run it with `npm run market-data` and set MARKET_DATA_PROVIDER=http, or pick
+// the http provider for a single strategy.
+const app = express();
+const PORT = process.env.MARKET_DATA_PORT || 5001;
+const provider = createSyntheticProvider();
+
+// Read the priceModel query parameter, a JSON object. Returns null if it is
+// given but is not one.
+function parsePriceModel(value: unknown): PriceModel | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') return null;
+
+  try {
+    const priceModel = JSON.parse(value);
+    return priceModel && typeof priceModel === 'object' && !Array.isArray(priceModel) ? priceModel : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// List the symbols the server knows
+app.get('/symbols', async (req, res) => {
+  try {
+    res.status(200).json({ symbols: await provider.getSymbols() });
+  } catch (error) {
+    console.error('Error listing symbols:', error);
+    res.status(500).json({ message: 'Error listing symbols' });
+  }
+});
+
+// Get a symbol's metadata
+app.get('/symbols/:symbol', async (req, res) => {
+  try {
+    const symbol = await provider.getSymbolMetadata(req.params.symbol);
+
+    if (!symbol) {
+      return res.status(404).json({ message: 'Symbol not found' });
+    }
+
+    res.status(200).json({ symbol });
+  } catch (error) {
+    console.error('Error fetching symbol:', error);
+    res.status(500).json({ message: 'Error fetching symbol' });
+  }
+});
+
+// Get a symbol's daily bars between startDate and endDate
+app.get('/bars/:symbol', async (req, res) => {
+  try {
+    const { startDate, endDate, seed, priceModel, calendar } = req.query;
+
+    if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+      return res.status(400).json({ message: 'startDate and endDate are required' });
+    }
+
+    const model = parsePriceModel(priceModel);
+    if (model === null) {
+      return res.status(400).json({ message: 'priceModel must be a JSON object' });
+    }
+
+    const bars = await provider.getBars(req.params.symbol, startDate, endDate, {
+      seed: seed !== undefined ? Number(seed) : getDefaultDataSeed(),
+      priceModel: model,
+      calendar: typeof calendar === 'string' && isTradingCalendar(calendar) ? calendar : undefined,
+    });
+
+    res.status(200).json({ bars });
+  } catch (error) {
+    console.error('Error fetching bars:', error);
+    res.status(500).json({ message: 'Error fetching bars' });
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(`Market data stand-in running on port ${PORT}`);
+});
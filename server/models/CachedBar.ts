@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One cached daily bar. `source` identifies the provider and whatever else the
+// bar depends on (see MarketDataProvider.getCacheKey).
+export interface ICachedBar extends Document {
+  source: string;
+  symbol: string;
+  date: string; // yyyy-MM-dd
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Define the CachedBar schema
+const CachedBarSchema = new Schema<ICachedBar>({
+  source: { type: String, required: true },
+  symbol: { type: String, required: true },
+  date: { type: String, required: true },
+  open: { type: Number, required: true },
+  high: { type: Number, required: true },
+  low: { type: Number, required: true },
+  close: { type: Number, required: true },
+  volume: { type: Number, required: true },
+});
+
+CachedBarSchema.index({ source: 1, symbol: 1, date: 1 }, { unique: true });
+
+// Create and export the CachedBar model
+export default mongoose.models.CachedBar || mongoose.model<ICachedBar>('CachedBar', CachedBarSchema);
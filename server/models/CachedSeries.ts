@@ -0,0 +1,27 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// The date ranges of a symbol's bars the cache holds for a source. Bars only
+// exist on trading days, so coverage is recorded separately: a covered range
+// with no bar on a date means the symbol did not trade that day.
+export interface ICachedSeries extends Document {
+  source: string;
+  symbol: string;
+  ranges: Array<{ startDate: string; endDate: string }>; // sorted, non-overlapping
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the CachedSeries schema
+const CachedSeriesSchema = new Schema<ICachedSeries>(
+  {
+    source: { type: String, required: true },
+    symbol: { type: String, required: true },
+    ranges: [{ _id: false, startDate: String, endDate: String }],
+  },
+  { timestamps: true }
+);
+
+CachedSeriesSchema.index({ source: 1, symbol: 1 }, { unique: true });
+
+// Create and export the CachedSeries model
+export default mongoose.models.CachedSeries || mongoose.model<ICachedSeries>('CachedSeries', CachedSeriesSchema);
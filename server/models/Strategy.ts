@@ -14,6 +14,17 @@ export interface IStrategy extends Document {
     symbols: string[];
     maxPositions: number;
     positionSize: number;
+    fillModel?: 'sameBarClose' | 'nextBarOpen' | 'nextBarVwap';
+    costs?: Record<string, any>;
+    sizing?: Record<string, any>;
+    riskFreeRate?: number;
+    benchmark?: { type: 'symbol'; symbol: string } | { type: 'equalWeight' };
+    dataSeed?: number;
+    dataProvider?: string;
+    calendar?: 'NYSE' | 'NSE' | 'LSE' | 'crypto';
+    priceModel?: Record<string, any>;
+    universe?: { source: 'symbols' | 'watchlist' | 'all'; watchlistId?: string; sectors?: string[]; exchanges?: string[] };
+    riskLimits?: Record<string, any>;
   };
   status: 'saved' | 'in_progress' | 'completed';
   results?: {
@@ -22,6 +33,7 @@ export interface IStrategy extends Document {
     winRate: number;
     trades: Array<{
       symbol: string;
+      side?: 'long' | 'short';
       entryDate: Date;
       entryPrice: number;
       exitDate?: Date;
@@ -30,17 +42,51 @@ export interface IStrategy extends Document {
       pnl?: number;
       pnlPercentage?: number;
       status: 'open' | 'closed';
+      exitReason?: string;
+      commission?: number;
+      slippage?: number;
     }>;
     equityCurve: Array<{ date: Date; equity: number }>;
+    benchmarkCurve?: Array<{ date: Date; equity: number }>;
+    dataSeed?: number;
+    dataProvider?: string;
+    symbols?: string[];
+    rejectedSignals?: Array<{
+      date: Date;
+      symbol: string;
+      side: 'long' | 'short';
+      rule: 'symbolLimit' | 'sectorExposure' | 'grossExposure' | 'correlation';
+      reason: string;
+    }>;
+    rejectedSignalCount?: number;
     drawdowns: Array<{ date: Date; drawdown: number }>;
     metrics: {
       sharpeRatio?: number;
+      sortinoRatio?: number;
+      calmarRatio?: number;
+      cagr?: number;
+      annualizedVolatility?: number;
       maxDrawdown: number;
       averageTrade: number;
       profitFactor?: number;
       totalTrades: number;
       winningTrades: number;
       losingTrades: number;
+      exposure?: number;
+      averageHoldingDays?: number;
+      longestWinStreak?: number;
+      longestLossStreak?: number;
+      expectancy?: number;
+      payoffRatio?: number;
+      alpha?: number;
+      beta?: number;
+      trackingError?: number;
+      informationRatio?: number;
+      upCapture?: number;
+      downCapture?: number;
+      totalCommission?: number;
+      totalSlippage?: number;
+      totalCosts?: number;
     };
   };
   createdAt: Date;
@@ -62,6 +108,24 @@ const StrategySchema = new Schema<IStrategy>(
       symbols: { type: [String], required: true },
       maxPositions: { type: Number, required: true },
       positionSize: { type: Number, required: true },
+      fillModel: {
+        type: String,
+        enum: ['sameBarClose', 'nextBarOpen', 'nextBarVwap'],
+        default: 'sameBarClose',
+      },
+      costs: { type: Schema.Types.Mixed },
+      sizing: { type: Schema.Types.Mixed },
+      riskFreeRate: { type: Number, default: 0 },
+      benchmark: { type: Schema.Types.Mixed },
+      dataSeed: Number,
+      dataProvider: String,
+      calendar: {
+        type: String,
+        enum: ['NYSE', 'NSE', 'LSE', 'crypto'],
+      },
+      priceModel: { type: Schema.Types.Mixed },
+      universe: { type: Schema.Types.Mixed },
+      riskLimits: { type: Schema.Types.Mixed },
     },
     status: {
       type: String,
@@ -75,6 +139,11 @@ const StrategySchema = new Schema<IStrategy>(
       trades: [
         {
           symbol: String,
+          side: {
+            type: String,
+            enum: ['long', 'short'],
+            default: 'long',
+          },
           entryDate: Date,
           entryPrice: Number,
           exitDate: Date,
@@ -87,18 +156,58 @@ const StrategySchema = new Schema<IStrategy>(
             enum: ['open', 'closed'],
             default: 'open',
           },
+          exitReason: String,
+          commission: Number,
+          slippage: Number,
         },
       ],
       equityCurve: [{ date: Date, equity: Number }],
+      benchmarkCurve: [{ date: Date, equity: Number }],
+      dataSeed: Number,
+      dataProvider: String,
+      symbols: [String],
+      rejectedSignals: [
+        {
+          _id: false,
+          date: Date,
+          symbol: String,
+          side: { type: String, enum: ['long', 'short'] },
+          rule: {
+            type: String,
+            enum: ['symbolLimit', 'sectorExposure', 'grossExposure', 'correlation'],
+          },
+          reason: String,
+        },
+      ],
+      rejectedSignalCount: Number,
       drawdowns: [{ date: Date, drawdown: Number }],
       metrics: {
         sharpeRatio: Number,
+        sortinoRatio: Number,
+        calmarRatio: Number,
+        cagr: Number,
+        annualizedVolatility: Number,
         maxDrawdown: Number,
         averageTrade: Number,
         profitFactor: Number,
         totalTrades: Number,
         winningTrades: Number,
         losingTrades: Number,
+        exposure: Number,
+        averageHoldingDays: Number,
+        longestWinStreak: Number,
+        longestLossStreak: Number,
+        expectancy: Number,
+        payoffRatio: Number,
+        alpha: Number,
+        beta: Number,
+        trackingError: Number,
+        informationRatio: Number,
+        upCapture: Number,
+        downCapture: Number,
+        totalCommission: Number,
+        totalSlippage: Number,
+        totalCosts: Number,
       },
     },
   },
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Symbol document interface
+export interface ISymbol extends Document {
+  symbol: string;
+  name?: string;
+  exchange?: string;
+  sector?: string;
+  industry?: string;
+  currency: string;
+  lotSize: number;
+  listedDate?: string; // yyyy-MM-dd
+  delistedDate?: string; // yyyy-MM-dd
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the Symbol schema
+const SymbolSchema = new Schema<ISymbol>(
+  {
+    symbol: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z0-9.\-_^=]{1,20}$/, 'Symbols may only contain letters, digits and . - _ ^ ='],
+    },
+    name: { type: String, trim: true },
+    exchange: { type: String, trim: true },
+    sector: { type: String, trim: true },
+    industry: { type: String, trim: true },
+    currency: { type: String, default: 'USD', uppercase: true, trim: true },
+    lotSize: { type: Number, default: 1, min: [1, 'The lot size must be at least 1'] },
+    listedDate: { type: String, match: [DATE_PATTERN, 'Dates must be yyyy-MM-dd'] },
+    delistedDate: { type: String, match: [DATE_PATTERN, 'Dates must be yyyy-MM-dd'] },
+  },
+  { timestamps: true }
+);
+
+SymbolSchema.index({ sector: 1 });
+SymbolSchema.index({ exchange: 1 });
+
+// Create and export the Symbol model
+export default mongoose.models.Symbol || mongoose.model<ISymbol>('Symbol', SymbolSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Watchlist document interface
+export interface IWatchlist extends Document {
+  name: string;
+  description?: string;
+  symbols: string[];
+  shareToken?: string; // set while the watchlist is shared
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Define the Watchlist schema
+const WatchlistSchema = new Schema<IWatchlist>(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    symbols: {
+      type: [{
+        type: String,
+        uppercase: true,
+        trim: true,
+        match: [/^[A-Z0-9.\-_^=]{1,20}$/, 'Symbols may only contain letters, digits and . - _ ^ ='],
+      }],
+      default: [],
+    },
+    shareToken: { type: String },
+  },
+  { timestamps: true }
+);
+
+WatchlistSchema.index({ shareToken: 1 }, { unique: true, sparse: true });
+
+// Create and export the Watchlist model
+export default mongoose.models.Watchlist || mongoose.model<IWatchlist>('Watchlist', WatchlistSchema);
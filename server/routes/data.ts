@@ -0,0 +1,176 @@
+import express from 'express';
+import { listCachedSeries, purgeCache } from '../services/barCache';
+import { getTradingCalendar, isTradingCalendar, TRADING_CALENDARS } from '../services/calendars';
+import { DataImportError, parsePriceFile } from '../services/dataImport';
+import { deleteImportedData, getImportedData, isValidSymbol, listImportedSymbols, saveImportedData } from '../services/dataStore';
+import { getMarketDataProviderName, listMarketDataProviders } from '../services/marketData';
+import { DataImportOptions } from '../../types';
+
+const router = express.Router();
+
+// Most row problems to send back for a rejected import
+const MAX_REPORTED_ISSUES = 100;
+
+// Import bars from an uploaded CSV or JSON file. The file's text is sent as
+// `content` along with the import options. Nothing is stored unless every row
+// is a valid bar.
+router.post('/import', async (req, res) => {
+  try {
+    const { content, ...options } = req.body as DataImportOptions & { content?: unknown };
+
+    if (typeof content !== 'string') {
+      return res.status(400).json({ message: 'The file content is required' });
+    }
+    if (options.format !== 'csv' && options.format !== 'json') {
+      return res.status(400).json({ message: "The format must be 'csv' or 'json'" });
+    }
+    if (options.mode !== undefined && options.mode !== 'merge' && options.mode !== 'replace') {
+      return res.status(400).json({ message: "The mode must be 'merge' or 'replace'" });
+    }
+
+    const { barsBySymbol, issues } = parsePriceFile(content, options);
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        message: `${issues.length} row${issues.length === 1 ? ' is' : 's are'} not valid bars`,
+        issues: issues.slice(0, MAX_REPORTED_ISSUES),
+        issueCount: issues.length,
+      });
+    }
+
+    const imported = [];
+    for (const symbol of Object.keys(barsBySymbol)) {
+      imported.push(await saveImportedData(symbol, barsBySymbol[symbol], options.mode));
+    }
+
+    res.status(201).json({ imported });
+  } catch (error) {
+    if (error instanceof DataImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error importing price data:', error);
+    res.status(500).json({ message: 'Error importing price data' });
+  }
+});
+
+// List the market data providers strategies can choose from, and the one
+// used when a strategy does not choose
+router.get('/providers', (req, res) => {
+  res.status(200).json({ providers: listMarketDataProviders(), defaultProvider: getMarketDataProviderName() });
+});
+
+// List the trading calendars strategies can choose from
+router.get('/calendars', (req, res) => {
+  res.status(200).json({ calendars: TRADING_CALENDARS });
+});
+
+// Get a calendar's holidays for a year (default the current one)
+router.get('/calendars/:name/holidays', (req, res) => {
+  if (!isTradingCalendar(req.params.name)) {
+    return res.status(404).json({ message: 'Trading calendar not found' });
+  }
+
+  const year = req.query.year !== undefined ? Number(req.query.year) : new Date().getFullYear();
+  if (!Number.isInteger(year)) {
+    return res.status(400).json({ message: 'The year must be a whole number' });
+  }
+
+  res.status(200).json({ holidays: getTradingCalendar(req.params.name).getHolidays(year) });
+});
+
+// List symbols with imported data
+router.get('/symbols', async (req, res) => {
+  try {
+    const symbols = await listImportedSymbols();
+    res.status(200).json({ symbols });
+  } catch (error) {
+    console.error('Error listing imported symbols:', error);
+    res.status(500).json({ message: 'Error listing imported symbols' });
+  }
+});
+
+// Inspect the bar cache: each cached series with the date ranges it covers
+router.get('/cache', async (req, res) => {
+  try {
+    const series = await listCachedSeries();
+    res.status(200).json({ series });
+  } catch (error) {
+    console.error('Error listing cached bars:', error);
+    res.status(500).json({ message: 'Error listing cached bars' });
+  }
+});
+
+// Inspect the cached series of one symbol
+router.get('/cache/:symbol', async (req, res) => {
+  try {
+    const series = await listCachedSeries(req.params.symbol);
+    res.status(200).json({ series });
+  } catch (error) {
+    console.error('Error listing cached bars:', error);
+    res.status(500).json({ message: 'Error listing cached bars' });
+  }
+});
+
+// Purge the whole bar cache
+router.delete('/cache', async (req, res) => {
+  try {
+    const deletedBars = await purgeCache();
+    res.status(200).json({ message: 'Bar cache purged', deletedBars });
+  } catch (error) {
+    console.error('Error purging bar cache:', error);
+    res.status(500).json({ message: 'Error purging bar cache' });
+  }
+});
+
+// Purge one symbol's cached bars
+router.delete('/cache/:symbol', async (req, res) => {
+  try {
+    const deletedBars = await purgeCache(req.params.symbol);
+    res.status(200).json({ message: `Cached bars for ${req.params.symbol} purged`, deletedBars });
+  } catch (error) {
+    console.error('Error purging cached bars:', error);
+    res.status(500).json({ message: 'Error purging cached bars' });
+  }
+});
+
+// Get a symbol's imported bars, optionally within startDate..endDate
+router.get('/:symbol', async (req, res) => {
+  try {
+    if (!isValidSymbol(req.params.symbol)) {
+      return res.status(400).json({ message: 'Invalid symbol' });
+    }
+
+    const bars = await getImportedData(
+      req.params.symbol,
+      typeof req.query.startDate === 'string' ? req.query.startDate : '0000-01-01',
+      typeof req.query.endDate === 'string' ? req.query.endDate : '9999-12-31'
+    );
+
+    if (!bars) {
+      return res.status(404).json({ message: 'No imported data for this symbol' });
+    }
+
+    res.status(200).json({ bars });
+  } catch (error) {
+    console.error('Error fetching imported data:', error);
+    res.status(500).json({ message: 'Error fetching imported data' });
+  }
+});
+
+// Delete a symbol's imported data, so it goes back to generated data
+router.delete('/:symbol', async (req, res) => {
+  try {
+    const deleted = await deleteImportedData(req.params.symbol);
+
+    if (!deleted) {
+      return res.status(404).json({ message: 'No imported data for this symbol' });
+    }
+
+    res.status(200).json({ message: 'Imported data deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting imported data:', error);
+    res.status(500).json({ message: 'Error deleting imported data' });
+  }
+});
+
+export default router;
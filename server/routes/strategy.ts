@@ -2,10 +2,53 @@ import express from 'express';
 import mongoose from 'mongoose';
 import Strategy from '../models/Strategy';
 import { runSimulation } from '../services/simulation';
-import { getAvailableSymbols } from '../services/financeApi';
+import { validateRuleExpressions } from '../services/conditions';
+import { getMarketDataProvider, isMarketDataProvider } from '../services/marketData';
+import { findSymbols } from '../services/symbols';
+import { validateUniverse } from '../services/universe';
+import { validateCorrelationModel } from '../services/factors';
+import type { ExpressionDiagnostic } from '../../lib/expression';
+import { advancedSimulationConfig } from '../../lib/simulationConfig';
 
 const router = express.Router();
 
+// Check a strategy sent by a client, returning the 400 response body if its
+// rule expressions, simulation settings, data provider or universe are not valid
+async function validateStrategyBody(
+  body: Record<string, any>
+): Promise<{ message: string; errors?: Record<string, ExpressionDiagnostic[] | string> } | undefined> {
+  const expressionErrors = validateRuleExpressions(body);
+  if (Object.keys(expressionErrors).length > 0) {
+    return { message: 'Invalid rule expression', errors: expressionErrors };
+  }
+
+  const settings = advancedSimulationConfig.safeParse(body.simulationConfig || {});
+  if (!settings.success) {
+    return {
+      message: 'Invalid simulation settings',
+      errors: Object.fromEntries(settings.error.issues.map(issue => [['simulationConfig', ...issue.path].join('.'), issue.message])),
+    };
+  }
+
+  const correlation = body.simulationConfig?.priceModel?.correlation;
+  const correlationError = correlation && validateCorrelationModel(correlation);
+  if (correlationError) {
+    return { message: correlationError, errors: { 'simulationConfig.priceModel.correlation': correlationError } };
+  }
+
+  const dataProvider = body.simulationConfig?.dataProvider;
+  if (dataProvider && !isMarketDataProvider(dataProvider)) {
+    return { message: `Unknown market data provider '${dataProvider}'` };
+  }
+
+  const universeError = await validateUniverse(body.simulationConfig);
+  if (universeError) {
+    return { message: universeError };
+  }
+
+  return undefined;
+}
+
 // Get all strategies
 router.get('/', async (req, res) => {
   try {
@@ -36,6 +79,11 @@ router.get('/:id', async (req, res) => {
 // Create a new strategy
 router.post('/', async (req, res) => {
   try {
+    const invalid = await validateStrategyBody(req.body);
+    if (invalid) {
+      return res.status(400).json(invalid);
+    }
+    
     const newStrategy = new Strategy(req.body);
     await newStrategy.save();
     
@@ -49,6 +97,11 @@ router.post('/', async (req, res) => {
 // Update a strategy
 router.put('/:id', async (req, res) => {
   try {
+    const invalid = await validateStrategyBody(req.body);
+    if (invalid) {
+      return res.status(400).json(invalid);
+    }
+    
     const strategy = await Strategy.findByIdAndUpdate(
       req.params.id,
       req.body,
@@ -153,10 +206,13 @@ router.get('/:id/result', async (req, res) => {
   }
 });
 
-// Get available symbols
-router.get('/symbols/available', (req, res) => {
+// Get the symbols in the registry, with their metadata, followed by any
+// others the configured market data provider can serve
+router.get('/symbols/available', async (req, res) => {
   try {
-    const symbols = getAvailableSymbols();
+    const [registered, served] = await Promise.all([findSymbols(), getMarketDataProvider().getSymbols()]);
+    const known = new Set(registered.map(entry => entry.symbol));
+    const symbols = registered.concat(served.filter(symbol => !known.has(symbol)).map(symbol => ({ symbol })));
     res.status(200).json({ symbols });
   } catch (error) {
     console.error('Error fetching symbols:', error);
@@ -168,6 +224,11 @@ router.get('/symbols/available', (req, res) => {
 router.put('/edit/:id', async (req, res) => {
   console.log("hit")
   try {
+    const invalid = await validateStrategyBody(req.body);
+    if (invalid) {
+      return res.status(400).json(invalid);
+    }
+    
     const updatedStrategy = await Strategy.findByIdAndUpdate(
       req.params.id,
       req.body,
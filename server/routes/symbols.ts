@@ -0,0 +1,134 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import SymbolModel from '../models/Symbol';
+import { findSymbols } from '../services/symbols';
+
+const router = express.Router();
+
+// Fields a client may set on a symbol
+const EDITABLE_FIELDS = ['symbol', 'name', 'exchange', 'sector', 'industry', 'currency', 'lotSize', 'listedDate', 'delistedDate'];
+
+function pickEditable(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  return fields;
+}
+
+// Check the fields that depend on each other
+function validateSymbol(fields: Record<string, any>): string | undefined {
+  if (fields.listedDate && fields.delistedDate && fields.delistedDate < fields.listedDate) {
+    return 'The delisting date cannot be before the listing date';
+  }
+  return undefined;
+}
+
+// Turn a save error into a response: validation problems and duplicate
+// symbols are the client's to fix
+function handleSaveError(error: unknown, res: express.Response, message: string) {
+  if (error instanceof mongoose.Error.ValidationError) {
+    return res.status(400).json({
+      message: 'Invalid symbol',
+      errors: Object.fromEntries(Object.entries(error.errors).map(([path, err]) => [path, err.message])),
+    });
+  }
+  if (error instanceof Error && 'code' in error && error.code === 11000) {
+    return res.status(409).json({ message: 'A symbol with this ticker already exists' });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
+
+// Search symbols: ?q= matches the ticker or name; sector, exchange and
+// activeOn (yyyy-MM-dd) filter; limit caps the results
+router.get('/', async (req, res) => {
+  try {
+    const { q, sector, exchange, activeOn, limit } = req.query;
+    const symbols = await findSymbols({
+      q: typeof q === 'string' ? q : undefined,
+      sector: typeof sector === 'string' ? sector : undefined,
+      exchange: typeof exchange === 'string' ? exchange : undefined,
+      activeOn: typeof activeOn === 'string' ? activeOn : undefined,
+      limit: typeof limit === 'string' ? parseInt(limit) || undefined : undefined,
+    });
+    res.status(200).json({ symbols });
+  } catch (error) {
+    console.error('Error fetching symbols:', error);
+    res.status(500).json({ message: 'Error fetching symbols' });
+  }
+});
+
+// Get a symbol's metadata
+router.get('/:symbol', async (req, res) => {
+  try {
+    const symbol = await SymbolModel.findOne({ symbol: req.params.symbol.toUpperCase() });
+
+    if (!symbol) {
+      return res.status(404).json({ message: 'Symbol not found' });
+    }
+
+    res.status(200).json({ symbol });
+  } catch (error) {
+    console.error('Error fetching symbol:', error);
+    res.status(500).json({ message: 'Error fetching symbol' });
+  }
+});
+
+// Add a symbol
+router.post('/', async (req, res) => {
+  try {
+    const fields = pickEditable(req.body);
+    const invalid = validateSymbol(fields);
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    const symbol = new SymbolModel(fields);
+    await symbol.save();
+
+    res.status(201).json({ symbol });
+  } catch (error) {
+    handleSaveError(error, res, 'Error creating symbol');
+  }
+});
+
+// Update a symbol's metadata
+router.put('/:symbol', async (req, res) => {
+  try {
+    const symbol = await SymbolModel.findOne({ symbol: req.params.symbol.toUpperCase() });
+
+    if (!symbol) {
+      return res.status(404).json({ message: 'Symbol not found' });
+    }
+
+    symbol.set(pickEditable(req.body));
+    const invalid = validateSymbol(symbol.toObject());
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    await symbol.save();
+    res.status(200).json({ symbol });
+  } catch (error) {
+    handleSaveError(error, res, 'Error updating symbol');
+  }
+});
+
+// Delete a symbol
+router.delete('/:symbol', async (req, res) => {
+  try {
+    const symbol = await SymbolModel.findOneAndDelete({ symbol: req.params.symbol.toUpperCase() });
+
+    if (!symbol) {
+      return res.status(404).json({ message: 'Symbol not found' });
+    }
+
+    res.status(200).json({ message: 'Symbol deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting symbol:', error);
+    res.status(500).json({ message: 'Error deleting symbol' });
+  }
+});
+
+export default router;
@@ -0,0 +1,286 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Strategy from '../models/Strategy';
+import Watchlist from '../models/Watchlist';
+import { DataImportError } from '../services/dataImport';
+import { createShareToken, parseWatchlistCsv } from '../services/watchlists';
+
+const router = express.Router();
+
+// Most row problems to send back for a rejected import
+const MAX_REPORTED_ISSUES = 100;
+
+// Fields a client may set on a watchlist
+const EDITABLE_FIELDS = ['name', 'description', 'symbols'];
+
+function pickEditable(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+  return fields;
+}
+
+// Keep each symbol once, in the order given
+function uniqueSymbols(symbols: unknown[]): string[] {
+  return Array.from(new Set(symbols.map(symbol => String(symbol).trim().toUpperCase())));
+}
+
+// Turn a save error into a response: validation problems are the client's to fix
+function handleSaveError(error: unknown, res: express.Response, message: string) {
+  if (error instanceof mongoose.Error.ValidationError) {
+    return res.status(400).json({
+      message: 'Invalid watchlist',
+      errors: Object.fromEntries(Object.entries(error.errors).map(([path, err]) => [path, err.message])),
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ message });
+}
+
+// Parse an uploaded watchlist CSV from a request body, sending a 400 and
+// returning undefined if it is not usable
+function readImport(req: express.Request, res: express.Response): string[] | undefined {
+  const { content, delimiter } = req.body;
+
+  if (typeof content !== 'string') {
+    res.status(400).json({ message: 'The file content is required' });
+    return undefined;
+  }
+
+  const { symbols, issues } = parseWatchlistCsv(content, delimiter || ',');
+  if (issues.length > 0) {
+    res.status(400).json({
+      message: `${issues.length} row${issues.length === 1 ? ' is' : 's are'} not valid symbols`,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      issueCount: issues.length,
+    });
+    return undefined;
+  }
+
+  return symbols;
+}
+
+// Get all watchlists
+router.get('/', async (req, res) => {
+  try {
+    const watchlists = await Watchlist.find().sort({ name: 1 });
+    res.status(200).json({ watchlists });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    res.status(500).json({ message: 'Error fetching watchlists' });
+  }
+});
+
+// Create a watchlist
+router.post('/', async (req, res) => {
+  try {
+    const fields = pickEditable(req.body);
+    if (Array.isArray(fields.symbols)) fields.symbols = uniqueSymbols(fields.symbols);
+
+    const watchlist = new Watchlist(fields);
+    await watchlist.save();
+
+    res.status(201).json({ watchlist });
+  } catch (error) {
+    handleSaveError(error, res, 'Error creating watchlist');
+  }
+});
+
+// Create a watchlist from an uploaded CSV of symbols. The file's text is sent
+// as `content` along with the watchlist's name and description.
+router.post('/import', async (req, res) => {
+  try {
+    const symbols = readImport(req, res);
+    if (!symbols) return;
+
+    const watchlist = new Watchlist({ ...pickEditable(req.body), symbols });
+    await watchlist.save();
+
+    res.status(201).json({ watchlist });
+  } catch (error) {
+    if (error instanceof DataImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    handleSaveError(error, res, 'Error importing watchlist');
+  }
+});
+
+// Get a shared watchlist by its share token
+router.get('/shared/:token', async (req, res) => {
+  try {
+    const watchlist = await Watchlist.findOne({ shareToken: req.params.token });
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Shared watchlist not found' });
+    }
+
+    const { name, description, symbols, updatedAt } = watchlist;
+    res.status(200).json({ watchlist: { name, description, symbols, updatedAt } });
+  } catch (error) {
+    console.error('Error fetching shared watchlist:', error);
+    res.status(500).json({ message: 'Error fetching shared watchlist' });
+  }
+});
+
+// Save a copy of a shared watchlist
+router.post('/shared/:token/copy', async (req, res) => {
+  try {
+    const original = await Watchlist.findOne({ shareToken: req.params.token });
+
+    if (!original) {
+      return res.status(404).json({ message: 'Shared watchlist not found' });
+    }
+
+    const watchlist = new Watchlist({
+      name: `${original.name} (Copy)`,
+      description: original.description,
+      symbols: original.symbols,
+    });
+    await watchlist.save();
+
+    res.status(201).json({ watchlist });
+  } catch (error) {
+    console.error('Error copying watchlist:', error);
+    res.status(500).json({ message: 'Error copying watchlist' });
+  }
+});
+
+// Get a watchlist by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const watchlist = mongoose.isValidObjectId(req.params.id) ? await Watchlist.findById(req.params.id) : null;
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    res.status(200).json({ watchlist });
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    res.status(500).json({ message: 'Error fetching watchlist' });
+  }
+});
+
+// Update a watchlist. Strategies scanning it pick up the change on their next run.
+router.put('/:id', async (req, res) => {
+  try {
+    const watchlist = mongoose.isValidObjectId(req.params.id) ? await Watchlist.findById(req.params.id) : null;
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const fields = pickEditable(req.body);
+    if (Array.isArray(fields.symbols)) fields.symbols = uniqueSymbols(fields.symbols);
+
+    watchlist.set(fields);
+    await watchlist.save();
+
+    res.status(200).json({ watchlist });
+  } catch (error) {
+    handleSaveError(error, res, 'Error updating watchlist');
+  }
+});
+
+// Add the symbols in an uploaded CSV to a watchlist, or replace its symbols
+// with them when `mode` is 'replace'
+router.post('/:id/import', async (req, res) => {
+  try {
+    if (req.body.mode !== undefined && req.body.mode !== 'merge' && req.body.mode !== 'replace') {
+      return res.status(400).json({ message: "The mode must be 'merge' or 'replace'" });
+    }
+
+    const watchlist = mongoose.isValidObjectId(req.params.id) ? await Watchlist.findById(req.params.id) : null;
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const symbols = readImport(req, res);
+    if (!symbols) return;
+
+    watchlist.symbols = req.body.mode === 'replace' ? symbols : uniqueSymbols(watchlist.symbols.concat(symbols));
+    await watchlist.save();
+
+    res.status(200).json({ watchlist });
+  } catch (error) {
+    if (error instanceof DataImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    handleSaveError(error, res, 'Error importing watchlist');
+  }
+});
+
+// Share a watchlist, giving it a token others can view and copy it with. A
+// watchlist that is already shared keeps its token.
+router.post('/:id/share', async (req, res) => {
+  try {
+    const watchlist = mongoose.isValidObjectId(req.params.id) ? await Watchlist.findById(req.params.id) : null;
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    if (!watchlist.shareToken) {
+      watchlist.shareToken = createShareToken();
+      await watchlist.save();
+    }
+
+    res.status(200).json({ watchlist });
+  } catch (error) {
+    console.error('Error sharing watchlist:', error);
+    res.status(500).json({ message: 'Error sharing watchlist' });
+  }
+});
+
+// Stop sharing a watchlist; its old share link stops working
+router.delete('/:id/share', async (req, res) => {
+  try {
+    const watchlist = mongoose.isValidObjectId(req.params.id)
+      ? await Watchlist.findByIdAndUpdate(req.params.id, { $unset: { shareToken: 1 } }, { new: true })
+      : null;
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    res.status(200).json({ watchlist });
+  } catch (error) {
+    console.error('Error unsharing watchlist:', error);
+    res.status(500).json({ message: 'Error unsharing watchlist' });
+  }
+});
+
+// Delete a watchlist, unless a strategy scans it
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    const strategies = await Strategy.find({
+      'simulationConfig.universe.source': 'watchlist',
+      'simulationConfig.universe.watchlistId': req.params.id,
+    }).select('name');
+
+    if (strategies.length > 0) {
+      return res.status(409).json({
+        message: `The watchlist is used by ${strategies.map(strategy => strategy.name).join(', ')}`,
+      });
+    }
+
+    const watchlist = await Watchlist.findByIdAndDelete(req.params.id);
+
+    if (!watchlist) {
+      return res.status(404).json({ message: 'Watchlist not found' });
+    }
+
+    res.status(200).json({ message: 'Watchlist deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    res.status(500).json({ message: 'Error deleting watchlist' });
+  }
+});
+
+export default router;
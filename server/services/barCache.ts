@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import CachedBar from '../models/CachedBar';
+import CachedSeries from '../models/CachedSeries';
+import { PriceData } from '../../types';
+import type { BarRequestOptions, MarketDataProvider } from './marketData';
+
+export type DateRange = { startDate: string; endDate: string };
+
+function toDateString(date: string | Date): string {
+  return date instanceof Date ? format(date, 'yyyy-MM-dd') : date.slice(0, 10);
+}
+
+function shiftDate(date: string, days: number): string {
+  return format(days >= 0 ? addDays(parseISO(date), days) : subDays(parseISO(date), -days), 'yyyy-MM-dd');
+}
+
+// Parts of startDate..endDate not covered by any of the (sorted) ranges
+export function findGaps(ranges: DateRange[], startDate: string, endDate: string): DateRange[] {
+  const gaps: DateRange[] = [];
+  let cursor = startDate;
+
+  for (const range of ranges) {
+    if (cursor > endDate) break;
+    if (range.endDate < cursor) continue;
+    if (range.startDate > cursor) {
+      const gapEnd = shiftDate(range.startDate, -1);
+      gaps.push({ startDate: cursor, endDate: gapEnd < endDate ? gapEnd : endDate });
+    }
+    cursor = shiftDate(range.endDate, 1);
+  }
+
+  if (cursor <= endDate) {
+    gaps.push({ startDate: cursor, endDate });
+  }
+
+  return gaps;
+}
+
+// Sort ranges and merge those that overlap or meet
+function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = ranges.slice().sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const merged: DateRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.startDate <= shiftDate(last.endDate, 1)) {
+      if (range.endDate > last.endDate) last.endDate = range.endDate;
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+}
+
+// The cache needs a database connection; without one bars are fetched directly
+function isCacheAvailable(): boolean {
+  return mongoose.connection.readyState === 1 && process.env.BAR_CACHE !== 'off';
+}
+
+// Get a symbol's bars through the cache: ranges the cache already holds are
+// read from it, and only the missing ranges are fetched from the provider.
+// Bars from providers that do not allow caching are always fetched, as are
+// bars for a seed drawn for one run (useCache false), which no later run asks for.
+export async function getCachedBars(
+  provider: MarketDataProvider,
+  symbol: string,
+  startDate: string | Date,
+  endDate: string | Date,
+  options: BarRequestOptions,
+  useCache = true
+): Promise<PriceData[]> {
+  const start = toDateString(startDate);
+  const end = toDateString(endDate);
+  const cacheKey = useCache ? await provider.getCacheKey(symbol, options) : undefined;
+
+  if (!cacheKey || !isCacheAvailable()) {
+    return provider.getBars(symbol, start, end, options);
+  }
+
+  const source = cacheKey.key;
+  const series = await CachedSeries.findOne({ source, symbol });
+  const ranges: DateRange[] = series ? series.ranges.map(({ startDate, endDate }: DateRange) => ({ startDate, endDate })) : [];
+  const gaps = findGaps(ranges, start, end);
+
+  if (gaps.length > 0) {
+    const bars = (
+      await Promise.all(gaps.map(gap => provider.getBars(symbol, gap.startDate, gap.endDate, options)))
+    ).flat();
+
+    if (bars.length > 0) {
+      await CachedBar.bulkWrite(bars.map(bar => ({
+        updateOne: {
+          filter: { source, symbol, date: bar.date },
+          update: { $set: { ...bar, source, symbol } },
+          upsert: true,
+        },
+      })));
+    }
+
+    // Today's bar may not be final yet, so coverage stops at yesterday
+    const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+    const covered = gaps
+      .map(gap => ({ startDate: gap.startDate, endDate: gap.endDate < yesterday ? gap.endDate : yesterday }))
+      .filter(range => range.startDate <= range.endDate);
+
+    await CachedSeries.updateOne(
+      { source, symbol },
+      { $set: { ranges: mergeRanges(ranges.concat(covered)) } },
+      { upsert: true }
+    );
+  }
+
+  const cached = await CachedBar.find({ source, symbol, date: { $gte: start, $lte: end } })
+    .sort({ date: 1 })
+    .select('-_id date open high low close volume')
+    .lean<PriceData[]>();
+
+  return cached;
+}
+
+// Cached series with their coverage and bar counts, optionally for one symbol
+export async function listCachedSeries(symbol?: string) {
+  const [series, counts] = await Promise.all([
+    CachedSeries.find(symbol ? { symbol } : {}).sort({ symbol: 1, source: 1 }).lean(),
+    CachedBar.aggregate([
+      ...(symbol ? [{ $match: { symbol } }] : []),
+      { $group: { _id: { source: '$source', symbol: '$symbol' }, bars: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const barCounts = new Map<string, number>();
+  counts.forEach(({ _id, bars }: { _id: { source: string; symbol: string }; bars: number }) => {
+    barCounts.set(`${_id.source}|${_id.symbol}`, bars);
+  });
+
+  return series.map((entry: any) => ({
+    source: entry.source,
+    symbol: entry.symbol,
+    ranges: entry.ranges.map(({ startDate, endDate }: DateRange) => ({ startDate, endDate })),
+    bars: barCounts.get(`${entry.source}|${entry.symbol}`) || 0,
+    updatedAt: entry.updatedAt,
+  }));
+}
+
+// Remove cached bars, for one symbol or for everything. Returns the number of
+// bars removed.
+export async function purgeCache(symbol?: string): Promise<number> {
+  const filter = symbol ? { symbol } : {};
+  const [bars] = await Promise.all([CachedBar.deleteMany(filter), CachedSeries.deleteMany(filter)]);
+  return bars.deletedCount || 0;
+}
@@ -0,0 +1,39 @@
+import { PriceData } from '../../types';
+
+// Price histories for a set of symbols aligned to one shared calendar, so the
+// simulation can step through the days and look up each symbol's bar by index
+export type AlignedBars = {
+  dates: string[]; // every trading day on or after the first date, in order
+  barIndexes: Record<string, Int32Array>; // per symbol and day, the index into its history, or -1
+};
+
+// Build the shared calendar and each symbol's bar index for every day of it.
+// Bars on days the exchange is closed are left out of the calendar.
+export function alignBars(
+  historicalDataBySymbol: Record<string, PriceData[]>,
+  firstDate: string,
+  isTradingDay: (date: string) => boolean = () => true
+): AlignedBars {
+  const dateSet = new Set<string>();
+  Object.keys(historicalDataBySymbol).forEach(symbol => {
+    historicalDataBySymbol[symbol].forEach(data => {
+      if (data.date >= firstDate && !dateSet.has(data.date) && isTradingDay(data.date)) dateSet.add(data.date);
+    });
+  });
+
+  const dates = Array.from(dateSet).sort();
+  const dateIndexes = new Map<string, number>();
+  dates.forEach((date, index) => dateIndexes.set(date, index));
+
+  const barIndexes: Record<string, Int32Array> = {};
+  Object.keys(historicalDataBySymbol).forEach(symbol => {
+    const indexes = new Int32Array(dates.length).fill(-1);
+    historicalDataBySymbol[symbol].forEach((data, barIndex) => {
+      const dateIndex = dateIndexes.get(data.date);
+      if (dateIndex !== undefined) indexes[dateIndex] = barIndex;
+    });
+    barIndexes[symbol] = indexes;
+  });
+
+  return { dates, barIndexes };
+}
@@ -0,0 +1,66 @@
+import { Benchmark, PriceData } from '../../types';
+
+// Symbols whose history a benchmark needs, beyond those the strategy trades
+export function getBenchmarkSymbols(benchmark: Benchmark | undefined, symbols: string[]): string[] {
+  return benchmark?.type === 'symbol' && !symbols.includes(benchmark.symbol) ? [benchmark.symbol] : [];
+}
+
+// Equity of a buy-and-hold portfolio on each simulated day. Each holding is
+// bought with its share of the capital at its first open on or after the first
+// date and valued at the latest close; a holding that has not traded yet is
+// held as cash.
+function getBuyAndHoldCurve(
+  histories: PriceData[][],
+  dates: string[],
+  initialCapital: number
+): Array<{ date: string; equity: number }> {
+  const allocation = initialCapital / histories.length;
+  const holdings = histories.map(history => {
+    const firstIndex = history.findIndex(data => data.date >= dates[0]);
+    return {
+      history,
+      barIndex: firstIndex === -1 ? history.length : firstIndex,
+      shares: firstIndex === -1 ? 0 : allocation / history[firstIndex].open,
+      value: allocation,
+    };
+  });
+
+  return dates.map(date => {
+    let equity = 0;
+
+    holdings.forEach(holding => {
+      // Step through the holding's bars up to the date, keeping the latest close
+      while (holding.barIndex < holding.history.length && holding.history[holding.barIndex].date <= date) {
+        holding.value = holding.shares * holding.history[holding.barIndex].close;
+        holding.barIndex++;
+      }
+      equity += holding.value;
+    });
+
+    return { date, equity };
+  });
+}
+
+// Build the benchmark's equity curve over the simulated days, starting from the
+// strategy's initial capital
+export function getBenchmarkCurve(
+  benchmark: Benchmark | undefined,
+  historicalDataBySymbol: Record<string, PriceData[]>,
+  symbols: string[],
+  dates: string[],
+  initialCapital: number
+): Array<{ date: string; equity: number }> | undefined {
+  if (!benchmark || dates.length === 0) {
+    return undefined;
+  }
+
+  const histories = benchmark.type === 'symbol'
+    ? [historicalDataBySymbol[benchmark.symbol]]
+    : symbols.map(symbol => historicalDataBySymbol[symbol]);
+
+  if (histories.length === 0 || histories.some(history => !history)) {
+    return undefined;
+  }
+
+  return getBuyAndHoldCurve(histories, dates, initialCapital);
+}
@@ -0,0 +1,323 @@
+import { TradingCalendarName } from '../../types';
+
+export const DEFAULT_CALENDAR: TradingCalendarName = 'NYSE';
+
+type CalendarYear = {
+  holidays: Map<string, string>; // date -> holiday name
+  earlyCloses: Map<string, number>; // date -> hours the shortened session lasts
+};
+
+type CalendarRules = {
+  weekend: number[]; // days of the week (0 = Sunday) the exchange is closed
+  sessionHours: number; // length of a regular session
+  tradingDaysPerYear: number;
+  getYear(year: number): CalendarYear;
+};
+
+// An exchange's trading days, holidays and early closes
+export type TradingCalendar = {
+  name: TradingCalendarName;
+  tradingDaysPerYear: number;
+  isTradingDay(date: string): boolean;
+  // Share of a regular session the exchange is open on a date: 1 normally,
+  // less on an early close, 0 when it is closed
+  getSessionFraction(date: string): number;
+  getHolidays(year: number): Array<{ date: string; name: string }>;
+};
+
+// Dates are handled as yyyy-MM-dd strings and built in UTC, so the local time
+// zone never shifts a holiday onto the wrong day
+function toDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// The nth given weekday of a month (n = 1 for the first)
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = toDate(year, month, 1);
+  return shiftDate(first, ((weekday - getWeekday(first) + 7) % 7) + (n - 1) * 7);
+}
+
+// The last given weekday of a month
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const last = toDate(year, month + 1, 0);
+  return shiftDate(last, -((getWeekday(last) - weekday + 7) % 7));
+}
+
+// Easter Sunday, by the anonymous Gregorian algorithm
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day);
+}
+
+// US-style observance: a Saturday holiday moves to Friday, a Sunday one to Monday
+function observedUs(date: string): string {
+  const weekday = getWeekday(date);
+  return weekday === 6 ? shiftDate(date, -1) : weekday === 0 ? shiftDate(date, 1) : date;
+}
+
+// UK-style observance: a weekend holiday moves to the following Monday
+function observedUk(date: string): string {
+  const weekday = getWeekday(date);
+  return weekday === 6 ? shiftDate(date, 2) : weekday === 0 ? shiftDate(date, 1) : date;
+}
+
+// Add dates falling in the year to a date -> name map
+function addDates(target: Map<string, string>, year: number, dates: Record<string, string>): void {
+  Object.keys(dates).forEach(date => {
+    if (date.startsWith(`${year}-`)) target.set(date, dates[date]);
+  });
+}
+
+// Unscheduled NYSE closures
+const NYSE_CLOSURES: Record<string, string> = {
+  '2001-09-11': 'September 11 attacks',
+  '2001-09-12': 'September 11 attacks',
+  '2001-09-13': 'September 11 attacks',
+  '2001-09-14': 'September 11 attacks',
+  '2004-06-11': 'Funeral of Ronald Reagan',
+  '2007-01-02': 'Funeral of Gerald Ford',
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'Funeral of George H. W. Bush',
+  '2025-01-09': 'Funeral of Jimmy Carter',
+};
+
+// NYSE holidays follow fixed rules. New Year's Day falling on a Saturday is
+// not observed on the Friday before, as that Friday ends a trading year.
+function getNyseYear(year: number): CalendarYear {
+  const holidays = new Map<string, string>();
+
+  const newYear = toDate(year, 1, 1);
+  if (getWeekday(newYear) !== 6) holidays.set(observedUs(newYear), "New Year's Day");
+  if (year >= 1998) holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(shiftDate(easterSunday(year), -2), 'Good Friday');
+  holidays.set(lastWeekday(year, 5, 1), 'Memorial Day');
+  if (year >= 2022) holidays.set(observedUs(toDate(year, 6, 19)), 'Juneteenth');
+  holidays.set(observedUs(toDate(year, 7, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observedUs(toDate(year, 12, 25)), 'Christmas Day');
+  addDates(holidays, year, NYSE_CLOSURES);
+
+  // Early closes at 13:00: the eves of Independence Day and Christmas when they
+  // fall Monday to Thursday, and the day after Thanksgiving
+  const earlyCloses = new Map<string, number>();
+  [toDate(year, 7, 3), toDate(year, 12, 24)].forEach(date => {
+    const weekday = getWeekday(date);
+    if (weekday >= 1 && weekday <= 4) earlyCloses.set(date, 3.5);
+  });
+  earlyCloses.set(shiftDate(nthWeekday(year, 11, 4, 4), 1), 3.5);
+
+  return { holidays, earlyCloses };
+}
+
+// Bank holidays that broke the usual rules, and one-off closures
+const LSE_EXCEPTIONS: Record<string, string> = {
+  '1995-05-08': 'VE Day anniversary',
+  '2002-06-03': 'Golden Jubilee',
+  '2002-06-04': 'Spring bank holiday',
+  '2011-04-29': 'Royal wedding',
+  '2012-06-04': 'Spring bank holiday',
+  '2012-06-05': 'Diamond Jubilee',
+  '2020-05-08': 'VE Day anniversary',
+  '2022-06-02': 'Spring bank holiday',
+  '2022-06-03': 'Platinum Jubilee',
+  '2022-09-19': 'Funeral of Queen Elizabeth II',
+  '2023-05-08': 'Coronation of King Charles III',
+};
+
+// LSE holidays are the England and Wales bank holidays
+function getLseYear(year: number): CalendarYear {
+  const holidays = new Map<string, string>();
+  const easter = easterSunday(year);
+
+  holidays.set(observedUk(toDate(year, 1, 1)), "New Year's Day");
+  holidays.set(shiftDate(easter, -2), 'Good Friday');
+  holidays.set(shiftDate(easter, 1), 'Easter Monday');
+  if (year !== 1995 && year !== 2020) holidays.set(nthWeekday(year, 5, 1, 1), 'Early May bank holiday');
+  if (year !== 2002 && year !== 2012 && year !== 2022) holidays.set(lastWeekday(year, 5, 1), 'Spring bank holiday');
+  holidays.set(lastWeekday(year, 8, 1), 'Summer bank holiday');
+  addDates(holidays, year, LSE_EXCEPTIONS);
+
+  // Christmas and Boxing Day both need a weekday: a Saturday Christmas moves
+  // to Monday and Boxing Day to Tuesday, a Sunday one to Tuesday
+  const christmas = toDate(year, 12, 25);
+  const christmasWeekday = getWeekday(christmas);
+  if (christmasWeekday === 6) {
+    holidays.set(toDate(year, 12, 27), 'Christmas Day');
+    holidays.set(toDate(year, 12, 28), 'Boxing Day');
+  } else if (christmasWeekday === 0) {
+    holidays.set(toDate(year, 12, 26), 'Boxing Day');
+    holidays.set(toDate(year, 12, 27), 'Christmas Day');
+  } else {
+    holidays.set(christmas, 'Christmas Day');
+    holidays.set(observedUk(toDate(year, 12, 26)), 'Boxing Day');
+  }
+
+  // Early closes at 12:30 on Christmas Eve and New Year's Eve
+  const earlyCloses = new Map<string, number>();
+  [toDate(year, 12, 24), toDate(year, 12, 31)].forEach(date => {
+    const weekday = getWeekday(date);
+    if (weekday >= 1 && weekday <= 5 && !holidays.has(date)) earlyCloses.set(date, 4.5);
+  });
+
+  return { holidays, earlyCloses };
+}
+
+// NSE holidays set by the lunar calendar (and one-off closures), as announced in
+// the exchange's yearly holiday circulars. Years outside this list only get the
+// fixed-date holidays and Good Friday.
+const NSE_MOVABLE_HOLIDAYS: Record<string, string> = {
+  '2022-03-01': 'Mahashivratri',
+  '2022-03-18': 'Holi',
+  '2022-05-03': 'Id-ul-Fitr',
+  '2022-08-09': 'Muharram',
+  '2022-08-31': 'Ganesh Chaturthi',
+  '2022-10-05': 'Dussehra',
+  '2022-10-24': 'Diwali Laxmi Pujan',
+  '2022-10-26': 'Diwali Balipratipada',
+  '2022-11-08': 'Guru Nanak Jayanti',
+  '2023-03-07': 'Holi',
+  '2023-03-30': 'Ram Navami',
+  '2023-04-04': 'Mahavir Jayanti',
+  '2023-06-28': 'Bakri Id',
+  '2023-09-19': 'Ganesh Chaturthi',
+  '2023-10-24': 'Dussehra',
+  '2023-11-14': 'Diwali Balipratipada',
+  '2023-11-27': 'Guru Nanak Jayanti',
+  '2024-01-22': 'Special holiday',
+  '2024-03-08': 'Mahashivratri',
+  '2024-03-25': 'Holi',
+  '2024-04-11': 'Id-ul-Fitr',
+  '2024-04-17': 'Ram Navami',
+  '2024-05-20': 'General election',
+  '2024-06-17': 'Bakri Id',
+  '2024-07-17': 'Muharram',
+  '2024-11-01': 'Diwali Laxmi Pujan',
+  '2024-11-15': 'Guru Nanak Jayanti',
+  '2024-11-20': 'Maharashtra assembly election',
+  '2025-02-26': 'Mahashivratri',
+  '2025-03-14': 'Holi',
+  '2025-03-31': 'Id-ul-Fitr',
+  '2025-04-10': 'Mahavir Jayanti',
+  '2025-08-27': 'Ganesh Chaturthi',
+  '2025-10-21': 'Diwali Laxmi Pujan',
+  '2025-10-22': 'Diwali Balipratipada',
+  '2025-11-05': 'Guru Nanak Jayanti',
+};
+
+function getNseYear(year: number): CalendarYear {
+  const holidays = new Map<string, string>();
+
+  holidays.set(toDate(year, 1, 26), 'Republic Day');
+  holidays.set(shiftDate(easterSunday(year), -2), 'Good Friday');
+  holidays.set(toDate(year, 4, 14), 'Dr. Baba Saheb Ambedkar Jayanti');
+  holidays.set(toDate(year, 5, 1), 'Maharashtra Day');
+  holidays.set(toDate(year, 8, 15), 'Independence Day');
+  holidays.set(toDate(year, 10, 2), 'Mahatma Gandhi Jayanti');
+  holidays.set(toDate(year, 12, 25), 'Christmas');
+  addDates(holidays, year, NSE_MOVABLE_HOLIDAYS);
+
+  return { holidays, earlyCloses: new Map() };
+}
+
+const CALENDARS: Record<TradingCalendarName, CalendarRules> = {
+  NYSE: { weekend: [0, 6], sessionHours: 6.5, tradingDaysPerYear: 252, getYear: getNyseYear },
+  NSE: { weekend: [0, 6], sessionHours: 6.25, tradingDaysPerYear: 248, getYear: getNseYear },
+  LSE: { weekend: [0, 6], sessionHours: 8.5, tradingDaysPerYear: 252, getYear: getLseYear },
+  crypto: {
+    weekend: [],
+    sessionHours: 24,
+    tradingDaysPerYear: 365,
+    getYear: () => ({ holidays: new Map(), earlyCloses: new Map() }),
+  },
+};
+
+export const TRADING_CALENDARS = Object.keys(CALENDARS) as TradingCalendarName[];
+
+const calendars = new Map<TradingCalendarName, TradingCalendar>();
+
+// Build a calendar from its rules, working out each year's holidays once
+function createCalendar(name: TradingCalendarName, rules: CalendarRules): TradingCalendar {
+  const years = new Map<number, CalendarYear>();
+  const getYear = (year: number) => {
+    let calendarYear = years.get(year);
+    if (!calendarYear) {
+      calendarYear = rules.getYear(year);
+      years.set(year, calendarYear);
+    }
+    return calendarYear;
+  };
+
+  const getSessionFraction = (date: string) => {
+    if (rules.weekend.includes(getWeekday(date))) return 0;
+
+    const { holidays, earlyCloses } = getYear(Number(date.slice(0, 4)));
+    if (holidays.has(date)) return 0;
+
+    const hours = earlyCloses.get(date);
+    return hours !== undefined ? hours / rules.sessionHours : 1;
+  };
+
+  return {
+    name,
+    tradingDaysPerYear: rules.tradingDaysPerYear,
+    isTradingDay: date => getSessionFraction(date) > 0,
+    getSessionFraction,
+    getHolidays: year => Array.from(getYear(year).holidays.entries())
+      .filter(([date]) => !rules.weekend.includes(getWeekday(date)))
+      .map(([date, holidayName]) => ({ date, name: holidayName }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+export function isTradingCalendar(name: string): name is TradingCalendarName {
+  return Object.prototype.hasOwnProperty.call(CALENDARS, name);
+}
+
+// Look up a calendar by name, defaulting to the NYSE's
+export function getTradingCalendar(name: TradingCalendarName = DEFAULT_CALENDAR): TradingCalendar {
+  if (!isTradingCalendar(name)) {
+    throw new Error(`Unknown trading calendar '${name}'`);
+  }
+
+  let calendar = calendars.get(name);
+  if (!calendar) {
+    calendar = createCalendar(name, CALENDARS[name]);
+    calendars.set(name, calendar);
+  }
+  return calendar;
+}
+
+// Every trading day from startDate to endDate inclusive
+export function getTradingDays(calendar: TradingCalendar, startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  for (let date = startDate; date <= endDate; date = shiftDate(date, 1)) {
+    if (calendar.isTradingDay(date)) days.push(date);
+  }
+  return days;
+}
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateCondition } from './conditions';
+import { PriceData } from '../../types';
+
+// Daily bars closing at the given prices
+function bars(closes: number[]): PriceData[] {
+  return closes.map((close, i) => ({
+    date: `2023-01-${String(i + 1).padStart(2, '0')}`,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000000,
+  }));
+}
+
+describe('evaluateCondition crossovers', () => {
+  const crossesAbove = { indicator: 'close', operator: 'crossesAbove', value: 10 };
+  const crossesBelow = { indicator: 'close', operator: 'crossesBelow', value: 10 };
+
+  it('crosses above on the bar that moves from at or below the value to above it', () => {
+    const history = bars([9, 10, 11, 12]);
+    assert.equal(evaluateCondition(crossesAbove, history, 1), false);
+    assert.equal(evaluateCondition(crossesAbove, history, 2), true);
+    assert.equal(evaluateCondition(crossesAbove, history, 3), false);
+  });
+
+  it('crosses below on the bar that moves from at or above the value to below it', () => {
+    const history = bars([11, 10, 9, 8]);
+    assert.equal(evaluateCondition(crossesBelow, history, 1), false);
+    assert.equal(evaluateCondition(crossesBelow, history, 2), true);
+    assert.equal(evaluateCondition(crossesBelow, history, 3), false);
+  });
+
+  it('never crosses on the first bar, which has no prior bar', () => {
+    assert.equal(evaluateCondition(crossesAbove, bars([11, 12]), 0), false);
+  });
+
+  it('compares against the other indicator on the prior bar', () => {
+    // The 2-bar SMA is 10.5, 10.5, 11.5: the close is under it, then over it
+    const history = bars([11, 10, 11, 12]);
+    const condition = { indicator: 'close', operator: 'crossesAbove', compareTo: { indicator: 'sma', period: 2 } };
+    assert.equal(evaluateCondition(condition, history, 2), true);
+    assert.equal(evaluateCondition(condition, history, 3), false);
+  });
+});
@@ -0,0 +1,192 @@
+import { getIndicatorValue, isKnownIndicator } from './indicators';
+import { compileExpression, ExpressionDiagnostic } from '../../lib/expression';
+import { PriceData, Trade, IndicatorSpec, ConditionNode, RuleConfig, Strategy } from '../../types';
+
+// Everything a condition may look at when it is evaluated
+export type ConditionContext = {
+  history: PriceData[];
+  index: number;
+  trade?: Trade; // the open position, for stopLoss/takeProfit leaves
+};
+
+// Helper function to get the value a condition compares against at a bar:
+// either another indicator (compareTo) or a literal value
+function getComparisonValue(
+  condition: any,
+  history: PriceData[],
+  index: number
+): number | undefined {
+  if (condition.compareTo) {
+    if (!isKnownIndicator(condition.compareTo.indicator)) return undefined;
+    return getIndicatorValue(condition.compareTo as IndicatorSpec, history, index);
+  }
+  
+  return condition.value;
+}
+
+// Evaluate a single indicator condition at a bar
+export function evaluateCondition(
+  condition: any,
+  history: PriceData[],
+  index: number
+): boolean {
+  if (!condition || !condition.indicator || !condition.operator) {
+    return false;
+  }
+  
+  if (condition.value === undefined && !condition.compareTo) {
+    return false;
+  }
+  
+  const { indicator, operator } = condition;
+  
+  if (!isKnownIndicator(indicator)) {
+    return false;
+  }
+  
+  // Get the actual value of the indicator and what it is compared to at the current bar
+  const actualValue = getIndicatorValue(condition as IndicatorSpec, history, index);
+  const value = getComparisonValue(condition, history, index);
+  
+  // Indicators that are still warming up never satisfy a condition
+  if (actualValue === undefined || value === undefined) {
+    return false;
+  }
+  
+  // Crossovers compare the current bar against the prior bar
+  if (operator === 'crossesAbove' || operator === 'crossesBelow') {
+    const previousActual = getIndicatorValue(condition as IndicatorSpec, history, index - 1);
+    const previousValue = getComparisonValue(condition, history, index - 1);
+    
+    if (previousActual === undefined || previousValue === undefined) {
+      return false;
+    }
+    
+    return operator === 'crossesAbove'
+      ? previousActual <= previousValue && actualValue > value
+      : previousActual >= previousValue && actualValue < value;
+  }
+  
+  // Evaluate the condition
+  switch (operator) {
+    case '>':
+      return actualValue > value;
+    case '<':
+      return actualValue < value;
+    case '>=':
+      return actualValue >= value;
+    case '<=':
+      return actualValue <= value;
+    case '==':
+      return actualValue === value;
+    default:
+      return false;
+  }
+}
+
+// Evaluate a stopLoss/takeProfit leaf against the open position at the bar's close
+function evaluateStopCondition(condition: any, context: ConditionContext): boolean {
+  const { history, index, trade } = context;
+  if (!trade || condition.value === undefined) {
+    return false;
+  }
+  
+  // Change in the position's favour, so a falling price is a gain for a short
+  const priceData = history[index];
+  const direction = trade.side === 'short' ? -1 : 1;
+  const change = direction * ((priceData.close - trade.entryPrice) / trade.entryPrice) * 100;
+  
+  return condition.type === 'stopLoss'
+    ? change <= -condition.value
+    : change >= condition.value;
+}
+
+// Recursively evaluate a condition tree of all/any/not groups and leaf conditions
+export function evaluateConditionTree(node: ConditionNode | undefined, context: ConditionContext): boolean {
+  if (!node || typeof node !== 'object') {
+    return false;
+  }
+  
+  if ('all' in node) {
+    return Array.isArray(node.all) && node.all.every(child => evaluateConditionTree(child, context));
+  }
+  
+  if ('any' in node) {
+    return Array.isArray(node.any) && node.any.some(child => evaluateConditionTree(child, context));
+  }
+  
+  if ('not' in node) {
+    return !evaluateConditionTree(node.not, context);
+  }
+  
+  if ('type' in node && (node.type === 'stopLoss' || node.type === 'takeProfit')) {
+    return evaluateStopCondition(node, context);
+  }
+  
+  return evaluateCondition(node, context.history, context.index);
+}
+
+// Get the condition tree of a scanner/buy/sell config. New configs carry a
+// `rules` tree, or an `expression` that compiles to one; saved strategies with
+// a flat `conditions` array are wrapped in the group they have always been
+// evaluated with. Returns undefined when the config defines no conditions at all.
+export function getRuleTree(
+  config: Record<string, any> | undefined,
+  legacyGroup: 'all' | 'any'
+): ConditionNode | undefined {
+  if (!config) {
+    return undefined;
+  }
+  
+  if (config.rules && typeof config.rules === 'object') {
+    return config.rules as ConditionNode;
+  }
+  
+  if (typeof config.expression === 'string' && config.expression.trim() !== '') {
+    const { rules, errors } = compileExpression(config.expression);
+    if (!rules) {
+      const { message, line, column } = errors[0];
+      throw new Error(`Invalid rule expression at line ${line}, column ${column}: ${message}`);
+    }
+    return rules;
+  }
+  
+  if (Array.isArray(config.conditions) && config.conditions.length > 0) {
+    return legacyGroup === 'all'
+      ? { all: config.conditions }
+      : { any: config.conditions };
+  }
+  
+  return undefined;
+}
+
+// Rule configs that may carry an expression, keyed by their path in a strategy
+function getRuleConfigs(strategy: Partial<Strategy>): Record<string, RuleConfig | undefined> {
+  return {
+    scannerConfig: strategy.scannerConfig,
+    buyConfig: strategy.buyConfig,
+    sellConfig: strategy.sellConfig,
+    'buyConfig.short': strategy.buyConfig?.short,
+    'sellConfig.cover': strategy.sellConfig?.cover,
+  };
+}
+
+// Check the rule expressions of a strategy's scanner/buy/sell configs (and their
+// short-entry/short-cover rules), returning the diagnostics for each config that
+// fails to compile, keyed by its path
+export function validateRuleExpressions(strategy: Partial<Strategy>): Record<string, ExpressionDiagnostic[]> {
+  const invalid: Record<string, ExpressionDiagnostic[]> = {};
+  const configs = getRuleConfigs(strategy);
+  
+  for (const key of Object.keys(configs)) {
+    const expression = configs[key]?.expression;
+    if (typeof expression !== 'string' || expression.trim() === '') continue;
+    
+    const { errors } = compileExpression(expression);
+    if (errors.length > 0) {
+      invalid[key] = errors;
+    }
+  }
+  
+  return invalid;
+}
@@ -0,0 +1,65 @@
+import { PriceData, CostModel } from '../../types';
+
+const DEFAULT_VOLATILITY_LOOKBACK = 20;
+
+// Commission charged on one order
+export function getCommission(costs: CostModel | undefined, quantity: number, price: number): number {
+  if (!costs || quantity === 0) {
+    return 0;
+  }
+
+  const commission =
+    (costs.commissionPerTrade || 0) +
+    (costs.commissionPerShare || 0) * quantity +
+    ((costs.commissionPercent || 0) / 100) * quantity * price;
+
+  return Math.max(commission, costs.minCommission || 0);
+}
+
+// Standard deviation of daily close-to-close returns, in percent, over the
+// bars before `index` (the fill bar itself is not known yet)
+function getDailyVolatility(history: PriceData[], index: number, lookback: number): number | undefined {
+  const start = Math.max(1, index - lookback);
+  if (index - start < 2) {
+    return undefined;
+  }
+
+  const returns: number[] = [];
+  for (let i = start; i < index; i++) {
+    returns.push((history[i].close - history[i - 1].close) / history[i - 1].close);
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+
+  return Math.sqrt(variance) * 100;
+}
+
+// Slippage for an order at a bar, as a fraction of the price. The fixed model
+// charges `slippageBps` on every order; the volatility model charges
+// `slippageBps` per 1% of the symbol's recent daily volatility, so fills in
+// volatile names cost more.
+export function getSlippageRate(
+  costs: CostModel | undefined,
+  history: PriceData[],
+  index: number
+): number {
+  if (!costs?.slippageBps) {
+    return 0;
+  }
+
+  const rate = costs.slippageBps / 10000;
+  if (costs.slippageModel !== 'volatility') {
+    return rate;
+  }
+
+  const volatility = getDailyVolatility(history, index, costs.volatilityLookback || DEFAULT_VOLATILITY_LOOKBACK);
+
+  // Until there is enough history, fall back to the fixed rate
+  return volatility === undefined ? rate : rate * volatility;
+}
+
+// Move a fill price against the trader: buys fill higher, sells lower
+export function applySlippage(price: number, rate: number, side: 'buy' | 'sell'): number {
+  return side === 'buy' ? price * (1 + rate) : price * (1 - rate);
+}
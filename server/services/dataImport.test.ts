@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePriceFile } from './dataImport';
+
+describe('parsePriceFile numbers with commas', () => {
+  it('reads quoted thousands separators in a comma-delimited file', () => {
+    const content = 'date,open,high,low,close,volume\n2023-01-03,"1,234.50","1,240.00","1,230.00","1,238.25","1,000,000"\n';
+    const { barsBySymbol, issues } = parsePriceFile(content, { format: 'csv', symbol: 'ABC' });
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(barsBySymbol.ABC, [
+      { date: '2023-01-03', open: 1234.5, high: 1240, low: 1230, close: 1238.25, volume: 1000000 },
+    ]);
+  });
+
+  it('rejects a comma that is not grouping thousands in a comma-delimited file', () => {
+    const content = 'date,open,high,low,close\n2023-01-03,"1,50",2,1,1.5\n';
+    const { barsBySymbol, issues } = parsePriceFile(content, { format: 'csv', symbol: 'ABC' });
+
+    assert.deepEqual(barsBySymbol, {});
+    assert.equal(issues.length, 1);
+    assert.match(issues[0].message, /^open '1,50'/);
+  });
+
+  it('rejects decimal commas in a file with another delimiter instead of dropping them', () => {
+    const content = 'date;open;high;low;close\n2023-01-03;1,50;2;1;1,75\n2023-01-04;1.5;2;1;1.75\n';
+    const { barsBySymbol, issues } = parsePriceFile(content, { format: 'csv', symbol: 'ABC', delimiter: ';' });
+
+    assert.deepEqual(issues.map(issue => issue.row), [1]);
+    assert.match(issues[0].message, /^open '1,50'/);
+    assert.deepEqual(barsBySymbol.ABC.map(bar => bar.open), [1.5]);
+  });
+});
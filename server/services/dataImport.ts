@@ -0,0 +1,244 @@
+import { format, isValid, parse } from 'date-fns';
+import { ColumnMapping, DataImportIssue, DataImportOptions, PriceData } from '../../types';
+import { isValidSymbol } from './dataStore';
+
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+type BarField = keyof PriceData | 'symbol';
+
+// A problem with the file as a whole (unreadable, or missing a column), as
+// opposed to a problem with one of its rows
+export class DataImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataImportError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, DataImportError.prototype);
+  }
+}
+
+export type ParsedImport = {
+  barsBySymbol: Record<string, PriceData[]>;
+  issues: DataImportIssue[];
+};
+
+// Split CSV text into rows of fields. Fields may be quoted, with "" standing
+// for a quote inside a quoted field.
+export function parseCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Turn a CSV or JSON file into records keyed by their column names
+function readRecords(content: string, options: DataImportOptions): Array<Record<string, unknown>> {
+  if (options.format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new DataImportError('The file is not valid JSON');
+    }
+    if (!Array.isArray(data) || data.some(record => typeof record !== 'object' || record === null)) {
+      throw new DataImportError('A JSON file must contain an array of bar objects');
+    }
+    return data;
+  }
+
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''), options.delimiter || ',');
+  if (!header) {
+    throw new DataImportError('The file is empty');
+  }
+
+  const names = header.map(name => name.trim());
+  return rows.map(fields => {
+    const record: Record<string, unknown> = {};
+    names.forEach((name, index) => {
+      record[name] = fields[index];
+    });
+    return record;
+  });
+}
+
+// Resolve each bar field to the record key holding it, matching names
+// case-insensitively. Fields that are not present are left out.
+function resolveColumns(keys: string[], columns: ColumnMapping = {}): Partial<Record<BarField, string>> {
+  const fields: BarField[] = ['date', 'open', 'high', 'low', 'close', 'volume', 'symbol'];
+  const resolved: Partial<Record<BarField, string>> = {};
+
+  fields.forEach(field => {
+    const wanted = (columns[field] || field).toLowerCase();
+    const key = keys.find(name => name.toLowerCase() === wanted);
+    if (key !== undefined) {
+      resolved[field] = key;
+    } else if (columns[field]) {
+      throw new DataImportError(`Column '${columns[field]}' mapped to ${field} was not found`);
+    }
+  });
+
+  return resolved;
+}
+
+// A number with commas between groups of three digits, such as 1,234.50
+const THOUSANDS_PATTERN = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+// Read a number from a field. Commas are only read as thousands separators
+// where they can be, as a file delimited by anything else may use decimal
+// commas; a comma that cannot be read gives NaN rather than a wrong number.
+function toNumber(value: unknown, thousandsSeparator: boolean): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  const text = value.trim();
+  if (!text.includes(',')) return Number(text);
+  return thousandsSeparator && THOUSANDS_PATTERN.test(text) ? Number(text.replace(/,/g, '')) : NaN;
+}
+
+// Read and validate one record as a bar. Returns the problem instead if it is not a valid bar.
+function toBar(
+  record: Record<string, unknown>,
+  columns: Partial<Record<BarField, string>>,
+  dateFormat: string,
+  thousandsSeparator: boolean
+): PriceData | string {
+  const rawDate = record[columns.date!];
+  const date = typeof rawDate === 'string' ? parse(rawDate.trim(), dateFormat, new Date()) : undefined;
+  if (!date || !isValid(date)) {
+    return `Date '${rawDate ?? ''}' does not match the format ${dateFormat}`;
+  }
+
+  const numberFields: Array<Exclude<keyof PriceData, 'date'>> = ['open', 'high', 'low', 'close', 'volume'];
+  const commaField = numberFields.find(field => {
+    const raw = columns[field] ? record[columns[field]!] : undefined;
+    return typeof raw === 'string' && raw.includes(',') && Number.isNaN(toNumber(raw, thousandsSeparator));
+  });
+  if (commaField) {
+    return thousandsSeparator
+      ? `${commaField} '${record[columns[commaField]!]}' has a comma that is not a thousands separator`
+      : `${commaField} '${record[columns[commaField]!]}' has a comma, which is ambiguous unless the delimiter is a comma`;
+  }
+
+  const bar: PriceData = {
+    date: format(date, 'yyyy-MM-dd'),
+    open: toNumber(record[columns.open!], thousandsSeparator),
+    high: toNumber(record[columns.high!], thousandsSeparator),
+    low: toNumber(record[columns.low!], thousandsSeparator),
+    close: toNumber(record[columns.close!], thousandsSeparator),
+    volume: columns.volume ? toNumber(record[columns.volume], thousandsSeparator) : 0,
+  };
+
+  const prices: Array<keyof PriceData> = ['open', 'high', 'low', 'close'];
+  const invalidPrice = prices.find(field => !Number.isFinite(bar[field] as number) || (bar[field] as number) <= 0);
+  if (invalidPrice) {
+    return `${invalidPrice} must be a positive number`;
+  }
+  if (!Number.isFinite(bar.volume) || bar.volume < 0) {
+    return 'volume must be a number of at least 0';
+  }
+  if (bar.high < Math.max(bar.open, bar.close, bar.low)) {
+    return 'high is below the open, close or low';
+  }
+  if (bar.low > Math.min(bar.open, bar.close)) {
+    return 'low is above the open or close';
+  }
+
+  return bar;
+}
+
+// Parse and validate an uploaded price file. Structural problems throw a
+// DataImportError; problems with individual rows are collected as issues so
+// they can all be reported at once.
+export function parsePriceFile(content: string, options: DataImportOptions): ParsedImport {
+  const records = readRecords(content, options);
+  if (records.length === 0) {
+    throw new DataImportError('The file contains no bars');
+  }
+
+  const keys = options.format === 'json'
+    ? Array.from(new Set(records.flatMap(record => Object.keys(record))))
+    : Object.keys(records[0]);
+  const columns = resolveColumns(keys, options.columns);
+
+  const missing = (['date', 'open', 'high', 'low', 'close'] as BarField[]).filter(field => !columns[field]);
+  if (missing.length > 0) {
+    throw new DataImportError(`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`);
+  }
+  if (!columns.symbol && !options.symbol) {
+    throw new DataImportError('Give a symbol for the file or map a symbol column');
+  }
+  if (options.symbol && !isValidSymbol(options.symbol)) {
+    throw new DataImportError(`'${options.symbol}' is not a valid symbol`);
+  }
+
+  const dateFormat = options.dateFormat || DEFAULT_DATE_FORMAT;
+  // A comma inside a field of a comma-delimited file had to be quoted on
+  // purpose, so there it is read as a thousands separator, as in JSON strings
+  const thousandsSeparator = options.format === 'json' || (options.delimiter || ',') === ',';
+  const barsBySymbol: Record<string, PriceData[]> = {};
+  const seen = new Set<string>();
+  const issues: DataImportIssue[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const rawSymbol = columns.symbol ? String(record[columns.symbol] ?? '').trim() : '';
+    const symbol = (rawSymbol || options.symbol || '').toUpperCase();
+
+    if (!isValidSymbol(symbol)) {
+      issues.push({ row, message: `'${symbol}' is not a valid symbol` });
+      return;
+    }
+
+    const bar = toBar(record, columns, dateFormat, thousandsSeparator);
+    if (typeof bar === 'string') {
+      issues.push({ row, message: bar });
+      return;
+    }
+
+    const key = `${symbol}:${bar.date}`;
+    if (seen.has(key)) {
+      issues.push({ row, message: `Duplicate bar for ${symbol} on ${bar.date}` });
+      return;
+    }
+    seen.add(key);
+
+    (barsBySymbol[symbol] = barsBySymbol[symbol] || []).push(bar);
+  });
+
+  return { barsBySymbol, issues };
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImportedSymbol, PriceData } from '../../types';
+
+// Imported end-of-day bars live in one JSON file per symbol, sorted by date
+const DATA_DIR = process.env.PRICE_DATA_DIR || path.join(process.cwd(), 'data', 'prices');
+
+// File holding a symbol's bars. Symbols are upper-cased and anything that is
+// not safe in a file name is rejected before it gets here.
+function getSymbolFile(symbol: string): string {
+  return path.join(DATA_DIR, `${symbol.toUpperCase()}.json`);
+}
+
+// Whether a symbol can be stored: letters, digits and . - _ ^ = only
+export function isValidSymbol(symbol: string): boolean {
+  return /^[A-Za-z0-9.\-_^=]{1,20}$/.test(symbol) && !/^\.+$/.test(symbol);
+}
+
+// Whether a file system error is for a file or directory that does not exist
+function isMissingFileError(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+// All of a symbol's imported bars, or undefined if it has none
+async function readSymbolFile(symbol: string): Promise<PriceData[] | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(getSymbolFile(symbol), 'utf8'));
+  } catch (error) {
+    if (isMissingFileError(error)) return undefined;
+    throw error;
+  }
+}
+
+// Whether a symbol has imported data
+export async function hasImportedData(symbol: string): Promise<boolean> {
+  if (!isValidSymbol(symbol)) return false;
+
+  try {
+    await fs.access(getSymbolFile(symbol));
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Imported bars for a symbol within a date range, or undefined if the symbol
+// has no imported data
+export async function getImportedData(
+  symbol: string,
+  startDate: string,
+  endDate: string
+): Promise<PriceData[] | undefined> {
+  if (!isValidSymbol(symbol)) return undefined;
+
+  const bars = await readSymbolFile(symbol);
+  return bars && bars.filter(bar => bar.date >= startDate && bar.date <= endDate);
+}
+
+// Store bars for a symbol. Merging keeps existing bars on dates the new data
+// does not cover and replaces those it does; replacing discards them all.
+export async function saveImportedData(
+  symbol: string,
+  bars: PriceData[],
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<ImportedSymbol> {
+  const existing = mode === 'merge' ? (await readSymbolFile(symbol)) || [] : [];
+
+  const byDate = new Map<string, PriceData>();
+  existing.forEach(bar => byDate.set(bar.date, bar));
+  bars.forEach(bar => byDate.set(bar.date, bar));
+
+  const merged = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(getSymbolFile(symbol), JSON.stringify(merged));
+
+  return summarize(symbol.toUpperCase(), merged);
+}
+
+// Remove a symbol's imported data. Returns false if it had none.
+export async function deleteImportedData(symbol: string): Promise<boolean> {
+  if (!isValidSymbol(symbol)) return false;
+
+  try {
+    await fs.unlink(getSymbolFile(symbol));
+    return true;
+  } catch (error) {
+    if (isMissingFileError(error)) return false;
+    throw error;
+  }
+}
+
+// Symbols with imported data and the range each covers
+export async function listImportedSymbols(): Promise<ImportedSymbol[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(DATA_DIR);
+  } catch (error) {
+    if (isMissingFileError(error)) return [];
+    throw error;
+  }
+
+  const symbols = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        const symbol = file.slice(0, -'.json'.length);
+        return summarize(symbol, (await readSymbolFile(symbol)) || []);
+      })
+  );
+
+  return symbols.sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+function summarize(symbol: string, bars: PriceData[]): ImportedSymbol {
+  return {
+    symbol,
+    firstDate: bars.length > 0 ? bars[0].date : '',
+    lastDate: bars.length > 0 ? bars[bars.length - 1].date : '',
+    bars: bars.length,
+  };
+}
@@ -0,0 +1,21 @@
+import { PriceData, FillModel } from '../../types';
+
+// Whether orders signalled at a bar's close are held over and filled on the next bar
+export function fillsOnNextBar(fillModel: FillModel): boolean {
+  return fillModel === 'nextBarOpen' || fillModel === 'nextBarVwap';
+}
+
+// Price an order fills at on the bar it executes under the given fill model
+export function getFillPrice(fillModel: FillModel, priceData: PriceData): number {
+  switch (fillModel) {
+    case 'nextBarOpen':
+      return priceData.open;
+    case 'nextBarVwap':
+      // Daily bars carry no intraday volume profile, so approximate the VWAP
+      // with the typical price
+      return (priceData.high + priceData.low + priceData.close) / 3;
+    case 'sameBarClose':
+    default:
+      return priceData.close;
+  }
+}
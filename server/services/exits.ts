@@ -0,0 +1,219 @@
+import { getIndicatorValue } from './indicators';
+import { getRuleTree } from './conditions';
+import { PriceData, Trade, ExitRules, ExitReason, ConditionNode, IndicatorSpec, StopCondition } from '../../types';
+
+const DEFAULT_ATR_PERIOD = 14;
+
+// Per-position state the exit rules need as the position is held
+export type ExitState = {
+  bestClose: number; // most favourable close since entry (highest long, lowest short), for trailing stops
+  breakEvenActive: boolean; // set once the break-even trigger has been reached
+  barsHeld: number; // trading days the position has been held, after the bar it was filled on
+};
+
+export type ExitSignal = {
+  reason: ExitReason;
+  price: number;
+};
+
+function isStopCondition(node: ConditionNode): node is StopCondition {
+  return 'type' in node && (node.type === 'stopLoss' || node.type === 'takeProfit');
+}
+
+// +1 for a long position, -1 for a short: multiplying a price move by this
+// gives the move in the position's favour
+function getDirection(trade: Trade): number {
+  return trade.side === 'short' ? -1 : 1;
+}
+
+// Split a sell config (or a short-cover config) into its price-level exit rules
+// and its signal rules.
+// Fixed stopLoss/takeProfit entries at the top level of the sell rules (including
+// legacy flat `conditions` lists) are OR'ed with everything else, so they are
+// lifted into the exit rules where their exit reason can be recorded.
+export function getSellRules(
+  sellConfig: Record<string, any>
+): { exits: ExitRules; signal?: ConditionNode } {
+  const exits: ExitRules = { ...(sellConfig.exits || {}) };
+  let signal = getRuleTree(sellConfig, 'any');
+
+  const topLevel = signal && 'any' in signal ? signal.any : signal ? [signal] : [];
+  const stops = topLevel.filter(isStopCondition);
+
+  if (stops.length > 0) {
+    stops.forEach(stop => {
+      if (exits[stop.type] === undefined) {
+        exits[stop.type] = stop.value;
+      }
+    });
+
+    const remaining = topLevel.filter(node => !isStopCondition(node));
+    signal = remaining.length > 0 ? { any: remaining } : undefined;
+  }
+
+  return { exits, signal };
+}
+
+// Indicators the exit rules compute, so their history can be warmed up
+export function getExitIndicatorSpecs(exits: ExitRules): IndicatorSpec[] {
+  if (exits.trailingStop?.atrMultiple) {
+    return [{ indicator: 'atr', period: exits.trailingStop.atrPeriod || DEFAULT_ATR_PERIOD }];
+  }
+  return [];
+}
+
+// Initial exit state for a newly opened position
+export function createExitState(trade: Trade): ExitState {
+  return {
+    bestClose: trade.entryPrice,
+    breakEvenActive: false,
+    barsHeld: 0,
+  };
+}
+
+// Stop levels in force for a bar, computed from the state as of the prior bar.
+// Returns the tightest stop (highest for a long, lowest for a short) and which
+// rule set it.
+export function getStopLevel(
+  exits: ExitRules,
+  trade: Trade,
+  state: ExitState,
+  history: PriceData[],
+  index: number
+): { price: number; reason: ExitReason } | undefined {
+  const direction = getDirection(trade);
+  const stops: Array<{ price: number; reason: ExitReason }> = [];
+
+  if (exits.stopLoss !== undefined) {
+    stops.push({ price: trade.entryPrice * (1 - direction * exits.stopLoss / 100), reason: 'stopLoss' });
+  }
+
+  const trailing = exits.trailingStop;
+  if (trailing?.percent !== undefined) {
+    stops.push({ price: state.bestClose * (1 - direction * trailing.percent / 100), reason: 'trailingStop' });
+  }
+
+  if (trailing?.atrMultiple !== undefined) {
+    const atr = getIndicatorValue(
+      { indicator: 'atr', period: trailing.atrPeriod || DEFAULT_ATR_PERIOD },
+      history,
+      index - 1
+    );
+    if (atr !== undefined) {
+      stops.push({ price: state.bestClose - direction * trailing.atrMultiple * atr, reason: 'trailingStop' });
+    }
+  }
+
+  if (state.breakEvenActive && exits.breakEven) {
+    stops.push({
+      price: trade.entryPrice * (1 + direction * (exits.breakEven.offsetPercent || 0) / 100),
+      reason: 'breakEven',
+    });
+  }
+
+  if (stops.length === 0) {
+    return undefined;
+  }
+
+  return stops.reduce((tightest, stop) => (direction * (stop.price - tightest.price) > 0 ? stop : tightest));
+}
+
+// Take-profit level for a position, if one is configured
+export function getTargetLevel(exits: ExitRules, trade: Trade): number | undefined {
+  return exits.takeProfit !== undefined
+    ? trade.entryPrice * (1 + getDirection(trade) * exits.takeProfit / 100)
+    : undefined;
+}
+
+// Fill price for a stop at a bar: the stop level if the bar traded through it,
+// or the open if the bar gapped past it. A long's stop sits below the price and
+// a short's above it.
+function getStopFill(stopPrice: number, priceData: PriceData, direction: number): number | undefined {
+  if (direction > 0) {
+    if (priceData.open <= stopPrice) return priceData.open;
+    if (priceData.low <= stopPrice) return stopPrice;
+  } else {
+    if (priceData.open >= stopPrice) return priceData.open;
+    if (priceData.high >= stopPrice) return stopPrice;
+  }
+  return undefined;
+}
+
+// Fill price for a take-profit at a bar, with the same gap handling
+function getTargetFill(targetPrice: number, priceData: PriceData, direction: number): number | undefined {
+  return getStopFill(targetPrice, priceData, -direction);
+}
+
+// Check the exit rules for an open position against a bar. Stops and targets
+// fill intrabar from the bar's high and low; time exits fill at the close.
+export function checkExits(
+  exits: ExitRules,
+  trade: Trade,
+  state: ExitState,
+  history: PriceData[],
+  index: number
+): ExitSignal | undefined {
+  const priceData = history[index];
+  const direction = getDirection(trade);
+
+  const stop = getStopLevel(exits, trade, state, history, index);
+  const stopFill = stop && getStopFill(stop.price, priceData, direction);
+
+  const target = getTargetLevel(exits, trade);
+  const targetFill = target !== undefined ? getTargetFill(target, priceData, direction) : undefined;
+
+  if (stop && stopFill !== undefined && targetFill !== undefined) {
+    // A gap through either level means it was hit at the open, before the other
+    if (stopFill === priceData.open) return { reason: stop.reason, price: stopFill };
+    if (targetFill === priceData.open) return { reason: 'takeProfit', price: targetFill };
+
+    // Both levels lie inside the bar; the bar alone cannot say which came first
+    const priority = exits.sameBarPriority || 'stop';
+    const stopFirst = priority === 'stop'
+      || (priority === 'nearestToOpen'
+        && Math.abs(priceData.open - stop.price) <= Math.abs(target! - priceData.open));
+
+    return stopFirst
+      ? { reason: stop.reason, price: stopFill }
+      : { reason: 'takeProfit', price: targetFill };
+  }
+
+  if (stop && stopFill !== undefined) {
+    return { reason: stop.reason, price: stopFill };
+  }
+
+  if (targetFill !== undefined) {
+    return { reason: 'takeProfit', price: targetFill };
+  }
+
+  // Held days count from the fill bar, so a position filled at a bar's open
+  // cannot be time-stopped on that bar
+  const isFillBar = priceData.date === trade.entryDate;
+  if (exits.maxHoldingDays !== undefined && !isFillBar && state.barsHeld + 1 >= exits.maxHoldingDays) {
+    return { reason: 'timeStop', price: priceData.close };
+  }
+
+  return undefined;
+}
+
+// Advance a position's exit state past a bar it was held through
+export function updateExitState(
+  exits: ExitRules,
+  trade: Trade,
+  state: ExitState,
+  priceData: PriceData
+): void {
+  const direction = getDirection(trade);
+
+  if (priceData.date !== trade.entryDate) {
+    state.barsHeld++;
+  }
+  if (direction * (priceData.close - state.bestClose) > 0) {
+    state.bestClose = priceData.close;
+  }
+
+  if (exits.breakEven && !state.breakEvenActive) {
+    const profit = direction * ((priceData.close - trade.entryPrice) / trade.entryPrice) * 100;
+    state.breakEvenActive = profit >= exits.breakEven.triggerPercent;
+  }
+}
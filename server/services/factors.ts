@@ -0,0 +1,112 @@
+import { CorrelationModel } from '../../types';
+import { createRandom, normal } from './random';
+
+const MARKET_FACTOR = 'market';
+const DEFAULT_MARKET_LOADING = 0.6;
+const DEFAULT_SECTOR_LOADING = 0.4;
+
+// Lower-triangular L with L * L^T equal to a symmetric positive definite matrix
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+
+      if (i === j) {
+        if (sum <= 0) {
+          throw new Error('The factor correlation matrix must be positive definite');
+        }
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+// Correlation between two factors as configured, in either order
+function getFactorCorrelation(correlation: CorrelationModel, a: string, b: string): number {
+  if (a === b) return 1;
+  return correlation.factorCorrelations?.[a]?.[b] ?? correlation.factorCorrelations?.[b]?.[a] ?? 0;
+}
+
+// Every factor a correlation model knows, in a fixed order, so all symbols
+// draw the same factor values
+function getFactors(correlation: CorrelationModel, sectors: Record<string, string>): string[] {
+  const sectorNames = Object.keys(sectors).map(key => sectors[key])
+    .concat(Object.keys(correlation.factorCorrelations || {}))
+    .filter((name, index, names) => name !== MARKET_FACTOR && names.indexOf(name) === index)
+    .sort();
+  return [MARKET_FACTOR, ...sectorNames];
+}
+
+// Lower-triangular Cholesky factor of the model's factor correlation matrix
+function getFactorCholesky(correlation: CorrelationModel, factors: string[]): number[][] {
+  return cholesky(factors.map(a => factors.map(b => getFactorCorrelation(correlation, a, b))));
+}
+
+// Check that a correlation model's factor correlations can be simulated,
+// returning a message if they cannot. Factors without configured correlations
+// are independent of the rest, so only the ones named in them are checked.
+export function validateCorrelationModel(correlation: CorrelationModel): string | undefined {
+  const factorCorrelations = correlation.factorCorrelations || {};
+  const named = Object.keys(factorCorrelations)
+    .reduce<string[]>((names, factor) => names.concat(factor, Object.keys(factorCorrelations[factor])), [])
+    .filter((name, index, names) => name !== MARKET_FACTOR && names.indexOf(name) === index);
+
+  try {
+    getFactorCholesky(correlation, [MARKET_FACTOR, ...named]);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Build a source of daily shocks for one symbol that shares its market and
+// sector components with every other symbol generated from the same seed and
+// correlation model. Factor shocks are keyed by date rather than drawn in
+// sequence, so symbols fetched separately and over different date ranges
+// still see the same market on the same day.
+export function createCorrelatedShocks(
+  correlation: CorrelationModel,
+  seed: number,
+  symbol: string,
+  builtInSectors: Record<string, string>,
+  random: () => number
+): (date: string) => number {
+  const sectors = { ...builtInSectors, ...(correlation.sectors || {}) };
+
+  const factors = getFactors(correlation, sectors);
+  const lower = getFactorCholesky(correlation, factors);
+
+  const sector = sectors[symbol];
+  const sectorIndex = sector ? factors.indexOf(sector) : -1;
+  const marketLoading = correlation.loadings?.[symbol]?.market ?? correlation.marketLoading ?? DEFAULT_MARKET_LOADING;
+  const sectorLoading = sectorIndex === -1
+    ? 0
+    : correlation.loadings?.[symbol]?.sector ?? correlation.sectorLoading ?? DEFAULT_SECTOR_LOADING;
+
+  // Keep the shock at unit variance: whatever the factors do not explain is noise
+  const systematicVariance = marketLoading ** 2 + sectorLoading ** 2
+    + 2 * marketLoading * sectorLoading * (sectorIndex === -1 ? 0 : getFactorCorrelation(correlation, MARKET_FACTOR, sector));
+  const idiosyncraticLoading = Math.sqrt(Math.max(0, 1 - systematicVariance));
+
+  return date => {
+    // Independent draws for the date, correlated through the Cholesky factor
+    const factorRandom = createRandom(`${seed}:factors:${date}`);
+    const independent = factors.map(() => normal(factorRandom));
+    const factorShock = (index: number) =>
+      lower[index].reduce((sum, weight, k) => sum + weight * independent[k], 0);
+
+    return marketLoading * factorShock(0)
+      + (sectorIndex === -1 ? 0 : sectorLoading * factorShock(sectorIndex))
+      + idiosyncraticLoading * normal(random);
+  };
+}
@@ -1,80 +1,151 @@
-import { format, subDays, parse, isAfter, isBefore, addDays } from 'date-fns';
-import { PriceData } from '../../types';
+import { format } from 'date-fns';
+import { PriceData, PriceModel, SymbolMetadata, TradingCalendarName } from '../../types';
+import { createRandom, createSeed } from './random';
+import { createCorrelatedShocks } from './factors';
+import { createPriceProcess, getPriceModelSettings } from './priceModels';
+import { getTradingCalendar, getTradingDays } from './calendars';
 
-// Mock stock symbols and their base prices
+// Mock stock symbols, their base prices and metadata
 const stockSymbols = [
-  { symbol: 'AAPL', basePrice: 150 },
-  { symbol: 'MSFT', basePrice: 300 },
-  { symbol: 'GOOGL', basePrice: 2500 },
-  { symbol: 'AMZN', basePrice: 3300 },
-  { symbol: 'META', basePrice: 300 },
-  { symbol: 'TSLA', basePrice: 800 },
-  { symbol: 'NVDA', basePrice: 700 },
-  { symbol: 'JPM', basePrice: 160 },
-  { symbol: 'V', basePrice: 230 },
-  { symbol: 'WMT', basePrice: 140 },
+  { symbol: 'AAPL', basePrice: 150, name: 'Apple Inc.', exchange: 'NASDAQ', sector: 'Technology', industry: 'Consumer Electronics', listedDate: '1980-12-12' },
+  { symbol: 'MSFT', basePrice: 300, name: 'Microsoft Corporation', exchange: 'NASDAQ', sector: 'Technology', industry: 'Software', listedDate: '1986-03-13' },
+  { symbol: 'GOOGL', basePrice: 2500, name: 'Alphabet Inc. Class A', exchange: 'NASDAQ', sector: 'Communication Services', industry: 'Internet Content & Information', listedDate: '2004-08-19' },
+  { symbol: 'AMZN', basePrice: 3300, name: 'Amazon.com, Inc.', exchange: 'NASDAQ', sector: 'Consumer Discretionary', industry: 'Internet Retail', listedDate: '1997-05-15' },
+  { symbol: 'META', basePrice: 300, name: 'Meta Platforms, Inc.', exchange: 'NASDAQ', sector: 'Communication Services', industry: 'Internet Content & Information', listedDate: '2012-05-18' },
+  { symbol: 'TSLA', basePrice: 800, name: 'Tesla, Inc.', exchange: 'NASDAQ', sector: 'Consumer Discretionary', industry: 'Automobiles', listedDate: '2010-06-29' },
+  { symbol: 'NVDA', basePrice: 700, name: 'NVIDIA Corporation', exchange: 'NASDAQ', sector: 'Technology', industry: 'Semiconductors', listedDate: '1999-01-22' },
+  { symbol: 'JPM', basePrice: 160, name: 'JPMorgan Chase & Co.', exchange: 'NYSE', sector: 'Financials', industry: 'Banks' },
+  { symbol: 'V', basePrice: 230, name: 'Visa Inc. Class A', exchange: 'NYSE', sector: 'Financials', industry: 'Credit Services', listedDate: '2008-03-19' },
+  { symbol: 'WMT', basePrice: 140, name: 'Walmart Inc.', exchange: 'NYSE', sector: 'Consumer Staples', industry: 'Discount Stores' },
 ];
 
-// Function to generate realistic price fluctuations
+// Generated series run from SERIES_EPOCH whatever range is asked for, so a
+// day's bar does not depend on how far back a request reaches; a request that
+// starts earlier runs from its own start. Each series is then scaled to be at
+// the symbol's base price on REFERENCE_DATE, so drifting models stay at
+// plausible prices for recent dates.
+const SERIES_EPOCH = '2000-01-01';
+const REFERENCE_DATE = '2022-01-03';
+
+// Sector of each mock symbol, for correlated data generation
+const stockSectors: Record<string, string> = {};
+stockSymbols.forEach(stock => {
+  stockSectors[stock.symbol] = stock.sector;
+});
+
+// Function to generate realistic price fluctuations. Closes follow the
+// configured price model, driven by a generator seeded by the data seed and the
+// symbol, so the same request always returns the same bars. With a correlation
+// model the symbols share market and sector shocks, so generating them one at a
+// time still yields a jointly correlated universe. Bars fall on the trading
+// days of the calendar, with lighter volume and a narrower range on early closes.
+// The requested range is cut from a series running from SERIES_EPOCH.
 function generatePriceData(
   symbol: string,
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  seed: number,
+  priceModel?: PriceModel,
+  calendarName?: TradingCalendarName
 ): PriceData[] {
   const startDateStr = startDate instanceof Date ? format(startDate, 'yyyy-MM-dd') : startDate;
   const endDateStr = endDate instanceof Date ? format(endDate, 'yyyy-MM-dd') : endDate;
   
-  const parsedStartDate = parse(startDateStr, 'yyyy-MM-dd', new Date());
-  const parsedEndDate = parse(endDateStr, 'yyyy-MM-dd', new Date());
+  const seriesStartStr = startDateStr < SERIES_EPOCH ? startDateStr : SERIES_EPOCH;
+  const seriesEndStr = endDateStr > REFERENCE_DATE ? endDateStr : REFERENCE_DATE;
 
   const stockInfo = stockSymbols.find(s => s.symbol === symbol) || { symbol, basePrice: 100 };
   let currentPrice = stockInfo.basePrice;
+  const random = createRandom(`${seed}:${symbol}`);
+  const shocks = priceModel?.correlation
+    ? createCorrelatedShocks(priceModel.correlation, seed, symbol, stockSectors, random)
+    : undefined;
+  const calendar = getTradingCalendar(calendarName);
+  const settings = getPriceModelSettings(priceModel, symbol);
+  const nextDay = createPriceProcess(
+    settings,
+    currentPrice,
+    random,
+    shocks,
+    calendar.tradingDaysPerYear
+  );
   
-  const data: PriceData[] = [];
-  let currentDate = parsedStartDate;
+  const series: PriceData[] = [];
+  let referencePrice: number | undefined;
   
-  while (!isAfter(currentDate, parsedEndDate)) {
-    if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-      const dailyChange = (Math.random() - 0.48) * 0.04 * currentPrice;
-      const openPrice = currentPrice;
-      const closePrice = openPrice + dailyChange;
-      const highPrice = Math.max(openPrice, closePrice) + (Math.random() * 0.01 * openPrice);
-      const lowPrice = Math.min(openPrice, closePrice) - (Math.random() * 0.01 * openPrice);
+  getTradingDays(calendar, seriesStartStr, seriesEndStr).forEach(date => {
+    const session = calendar.getSessionFraction(date);
+    const { close: closePrice, range: fullRange } = nextDay(date);
+    const range = fullRange * Math.sqrt(session);
+    const openPrice = currentPrice;
+    const highPrice = Math.max(openPrice, closePrice) + (random() * range * openPrice);
+    const lowPrice = Math.min(openPrice, closePrice) - (random() * range * openPrice);
 
-      const volume = Math.floor(Math.random() * 9000000) + 1000000;
-      
-      data.push({
-        date: format(currentDate, 'yyyy-MM-dd'),
-        open: parseFloat(openPrice.toFixed(2)),
-        close: parseFloat(closePrice.toFixed(2)),
-        high: parseFloat(highPrice.toFixed(2)),
-        low: parseFloat(lowPrice.toFixed(2)),
-        volume
-      });
+    const volume = Math.floor((Math.floor(random() * 9000000) + 1000000) * session);
+    
+    series.push({ date, open: openPrice, close: closePrice, high: highPrice, low: lowPrice, volume });
 
-      currentPrice = closePrice;
+    if (referencePrice === undefined && date >= REFERENCE_DATE) {
+      referencePrice = openPrice;
     }
-    
-    currentDate = addDays(currentDate, 1);
-  }
+    currentPrice = closePrice;
+  });
+  
+  // Every model but mean reversion scales with the price; mean reversion
+  // already stays around its mean price, which scaling would move
+  const scale = settings.model === 'meanReversion' || !referencePrice ? 1 : stockInfo.basePrice / referencePrice;
   
-  return data;
+  return series
+    .filter(bar => bar.date >= startDateStr && bar.date <= endDateStr)
+    .map(bar => ({
+      date: bar.date,
+      open: parseFloat((bar.open * scale).toFixed(2)),
+      close: parseFloat((bar.close * scale).toFixed(2)),
+      high: parseFloat((bar.high * scale).toFixed(2)),
+      low: parseFloat((bar.low * scale).toFixed(2)),
+      volume: bar.volume
+    }));
+}
+
+// Seed set by the DATA_SEED environment variable, if any
+export function getConfiguredDataSeed(): number | undefined {
+  const seed = Number(process.env.DATA_SEED);
+  return process.env.DATA_SEED && Number.isInteger(seed) ? seed : undefined;
+}
+
+// Seed used when neither the strategy nor the caller gives one: the DATA_SEED
+// environment variable, or a fresh random seed
+export function getDefaultDataSeed(): number {
+  return getConfiguredDataSeed() ?? createSeed();
 }
 
 // Mock API function to get historical data
 export async function getHistoricalData(
   symbol: string,
   startDate: string | Date,
-  endDate: string | Date
+  endDate: string | Date,
+  seed: number = getDefaultDataSeed(),
+  priceModel?: PriceModel,
+  calendar?: TradingCalendarName
 ): Promise<PriceData[]> {
   // Simulate API delay
   await new Promise(resolve => setTimeout(resolve, 100));
   
   // Generate and return mock data
-  return generatePriceData(symbol, startDate, endDate);
+  return generatePriceData(symbol, startDate, endDate, seed, priceModel, calendar);
 }
 
 // Function to get available symbols
 export function getAvailableSymbols(): string[] {
   return stockSymbols.map(stock => stock.symbol);
+}
+
+// Function to get a mock symbol's metadata. Any other symbol can still be
+// generated, but nothing is known about it.
+export function getSymbolMetadata(symbol: string): SymbolMetadata | undefined {
+  const stock = stockSymbols.find(s => s.symbol === symbol);
+  if (!stock) return undefined;
+
+  const { basePrice, ...metadata } = stock;
+  return { ...metadata, currency: 'USD', lotSize: 1 };
 }
\ No newline at end of file
@@ -0,0 +1,359 @@
+import { PriceData, IndicatorSpec, PriceSource } from '../../types';
+
+// Indicator series are aligned with the price history they were computed from:
+// series[i] is the indicator value at history[i], or NaN while the indicator
+// is still warming up.
+
+// Default parameters for each indicator
+const DEFAULT_PERIODS: Record<string, number> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  bollinger: 20,
+  atr: 14,
+  roc: 12,
+};
+
+const DEFAULT_MACD = { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 };
+const DEFAULT_STOCHASTIC = { kPeriod: 14, dPeriod: 3 };
+const DEFAULT_BOLLINGER_STD_DEV = 2;
+
+// Extract a single value series from the price history
+export function getSourceValues(history: PriceData[], source: PriceSource = 'close'): number[] {
+  return history.map(bar => bar[source]);
+}
+
+// Simple moving average
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+}
+
+// Exponential moving average, seeded with the SMA of the first `period` values.
+// Leading NaNs (e.g. when smoothing another indicator) are skipped.
+export function ema(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  const multiplier = 2 / (period + 1);
+
+  const start = values.findIndex(value => !isNaN(value));
+  if (start === -1 || values.length - start < period) {
+    return result;
+  }
+
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i];
+  }
+
+  let previous = seed / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (values[i] - previous) * multiplier + previous;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+// Relative strength index using Wilder's smoothing
+export function rsi(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (values.length <= period) {
+    return result;
+  }
+
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) averageGain += change;
+    else averageLoss -= change;
+  }
+
+  averageGain /= period;
+  averageLoss /= period;
+  result[period] = toRsi(averageGain, averageLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+
+    averageGain = (averageGain * (period - 1) + gain) / period;
+    averageLoss = (averageLoss * (period - 1) + loss) / period;
+    result[i] = toRsi(averageGain, averageLoss);
+  }
+
+  return result;
+}
+
+function toRsi(averageGain: number, averageLoss: number): number {
+  if (averageLoss === 0) {
+    return averageGain === 0 ? 50 : 100;
+  }
+  return 100 - 100 / (1 + averageGain / averageLoss);
+}
+
+// Moving average convergence/divergence
+export function macd(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): { line: number[]; signal: number[]; histogram: number[] } {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const line = values.map((_, i) => fast[i] - slow[i]);
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => value - signal[i]);
+
+  return { line, signal, histogram };
+}
+
+// Bollinger Bands around a simple moving average
+export function bollingerBands(
+  values: number[],
+  period: number,
+  stdDev: number
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = sma(values, period);
+  const upper: number[] = new Array(values.length).fill(NaN);
+  const lower: number[] = new Array(values.length).fill(NaN);
+
+  for (let i = period - 1; i < values.length; i++) {
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - middle[i]) ** 2;
+    }
+    const deviation = Math.sqrt(variance / period);
+
+    upper[i] = middle[i] + stdDev * deviation;
+    lower[i] = middle[i] - stdDev * deviation;
+  }
+
+  return { upper, middle, lower };
+}
+
+// Average true range using Wilder's smoothing
+export function atr(history: PriceData[], period: number): number[] {
+  const result: number[] = new Array(history.length).fill(NaN);
+  if (history.length < period) {
+    return result;
+  }
+
+  const trueRanges = history.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = history[i - 1].close;
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previousClose),
+      Math.abs(bar.low - previousClose)
+    );
+  });
+
+  let previous = 0;
+  for (let i = 0; i < period; i++) {
+    previous += trueRanges[i];
+  }
+  previous /= period;
+  result[period - 1] = previous;
+
+  for (let i = period; i < history.length; i++) {
+    previous = (previous * (period - 1) + trueRanges[i]) / period;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+// Stochastic oscillator (%K and its %D moving average)
+export function stochastic(
+  history: PriceData[],
+  kPeriod: number,
+  dPeriod: number
+): { k: number[]; d: number[] } {
+  const k: number[] = new Array(history.length).fill(NaN);
+
+  for (let i = kPeriod - 1; i < history.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, history[j].high);
+      lowest = Math.min(lowest, history[j].low);
+    }
+
+    const range = highest - lowest;
+    k[i] = range === 0 ? 50 : ((history[i].close - lowest) / range) * 100;
+  }
+
+  const d = new Array(history.length).fill(NaN);
+  const smoothed = sma(k.slice(kPeriod - 1), dPeriod);
+  smoothed.forEach((value, i) => {
+    d[i + kPeriod - 1] = value;
+  });
+
+  return { k, d };
+}
+
+// Rate of change, in percent
+export function roc(values: number[], period: number): number[] {
+  return values.map((value, i) => {
+    if (i < period || values[i - period] === 0) return NaN;
+    return ((value - values[i - period]) / values[i - period]) * 100;
+  });
+}
+
+// Cache of computed series per price history, so each indicator is computed
+// once per symbol rather than once per bar
+const seriesCache = new WeakMap<PriceData[], Map<string, number[]>>();
+
+// Compute the full series for an indicator spec over a price history
+function computeSeries(spec: IndicatorSpec, history: PriceData[]): number[] {
+  const source = spec.source || 'close';
+  const period = spec.period || DEFAULT_PERIODS[spec.indicator];
+
+  switch (spec.indicator) {
+    case 'price':
+    case 'close':
+      return getSourceValues(history, 'close');
+    case 'open':
+    case 'high':
+    case 'low':
+    case 'volume':
+      return getSourceValues(history, spec.indicator);
+    case 'priceChange':
+      return roc(getSourceValues(history, source), 1);
+    case 'sma':
+      return sma(getSourceValues(history, source), period);
+    case 'ema':
+      return ema(getSourceValues(history, source), period);
+    case 'rsi':
+      return rsi(getSourceValues(history, source), period);
+    case 'roc':
+      return roc(getSourceValues(history, source), period);
+    case 'atr':
+      return atr(history, period);
+    case 'macd': {
+      const { line, signal, histogram } = macd(
+        getSourceValues(history, source),
+        spec.fastPeriod || DEFAULT_MACD.fastPeriod,
+        spec.slowPeriod || DEFAULT_MACD.slowPeriod,
+        spec.signalPeriod || DEFAULT_MACD.signalPeriod
+      );
+      if (spec.output === 'signal') return signal;
+      if (spec.output === 'histogram') return histogram;
+      return line;
+    }
+    case 'bollinger': {
+      const { upper, middle, lower } = bollingerBands(
+        getSourceValues(history, source),
+        period,
+        spec.stdDev || DEFAULT_BOLLINGER_STD_DEV
+      );
+      if (spec.output === 'upper') return upper;
+      if (spec.output === 'lower') return lower;
+      return middle;
+    }
+    case 'stochastic': {
+      const { k, d } = stochastic(
+        history,
+        spec.kPeriod || spec.period || DEFAULT_STOCHASTIC.kPeriod,
+        spec.dPeriod || DEFAULT_STOCHASTIC.dPeriod
+      );
+      return spec.output === 'd' ? d : k;
+    }
+    default:
+      throw new Error(`Unknown indicator: ${spec.indicator}`);
+  }
+}
+
+// Build a stable cache key from the parameters that affect the series
+function getSeriesKey(spec: IndicatorSpec): string {
+  return [
+    spec.indicator,
+    spec.source,
+    spec.period,
+    spec.fastPeriod,
+    spec.slowPeriod,
+    spec.signalPeriod,
+    spec.stdDev,
+    spec.kPeriod,
+    spec.dPeriod,
+    spec.output,
+  ].join('|');
+}
+
+// Get the full indicator series for a price history, computing it on first use
+export function getIndicatorSeries(spec: IndicatorSpec, history: PriceData[]): number[] {
+  let cached = seriesCache.get(history);
+  if (!cached) {
+    cached = new Map();
+    seriesCache.set(history, cached);
+  }
+
+  const key = getSeriesKey(spec);
+  let series = cached.get(key);
+  if (!series) {
+    series = computeSeries(spec, history);
+    cached.set(key, series);
+  }
+
+  return series;
+}
+
+// Get the indicator value at a given bar, or undefined if it is not available yet
+export function getIndicatorValue(
+  spec: IndicatorSpec,
+  history: PriceData[],
+  index: number
+): number | undefined {
+  if (index < 0 || index >= history.length) {
+    return undefined;
+  }
+
+  const value = getIndicatorSeries(spec, history)[index];
+  return isNaN(value) ? undefined : value;
+}
+
+// Number of bars of history an indicator needs before it produces a value
+export function getLookbackBars(spec: IndicatorSpec): number {
+  const period = spec.period || DEFAULT_PERIODS[spec.indicator] || 1;
+
+  switch (spec.indicator) {
+    case 'macd':
+      return (spec.slowPeriod || DEFAULT_MACD.slowPeriod) + (spec.signalPeriod || DEFAULT_MACD.signalPeriod);
+    case 'stochastic':
+      return (spec.kPeriod || spec.period || DEFAULT_STOCHASTIC.kPeriod) + (spec.dPeriod || DEFAULT_STOCHASTIC.dPeriod);
+    case 'rsi':
+    case 'roc':
+    case 'priceChange':
+      return period + 1;
+    case 'ema':
+      // EMAs depend on their seed; give them a few periods to converge
+      return period * 3;
+    default:
+      return period;
+  }
+}
+
+// Check whether an indicator name is one the engine knows how to compute
+export function isKnownIndicator(indicator: string): boolean {
+  return [
+    'price', 'open', 'high', 'low', 'close', 'volume', 'priceChange',
+    'sma', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'stochastic', 'roc',
+  ].includes(indicator);
+}
@@ -0,0 +1,103 @@
+import { PriceData, PriceModel, SymbolMetadata, TradingCalendarName } from '../../types';
+import { hasImportedData } from './dataStore';
+import { createSyntheticProvider } from './providers/synthetic';
+import { createFileProvider } from './providers/file';
+import { createHttpProvider } from './providers/http';
+
+// What a bar request carries beyond the symbol and dates. Only generated data
+// depends on these; providers serving real data ignore them.
+export type BarRequestOptions = {
+  seed: number;
+  priceModel?: PriceModel;
+  calendar?: TradingCalendarName; // trading days to generate bars for
+};
+
+// How a provider's bars for a request may be cached: under `key`, which must
+// change whenever the bars would. A day's bar must not depend on the requested
+// range, as ranges fetched separately are cached as one series.
+export type BarCacheKey = {
+  key: string;
+};
+
+// A source of market data: daily bars, the symbols it can serve, and what it
+// knows about each symbol
+export type MarketDataProvider = {
+  name: string;
+  description: string;
+  getBars(
+    symbol: string,
+    startDate: string | Date,
+    endDate: string | Date,
+    options: BarRequestOptions
+  ): Promise<PriceData[]>;
+  getSymbols(): Promise<string[]>;
+  getSymbolMetadata(symbol: string): Promise<SymbolMetadata | undefined>;
+  getCacheKey(symbol: string, options: BarRequestOptions): Promise<BarCacheKey | undefined>; // undefined: never cache
+};
+
+const DEFAULT_PROVIDER = 'default';
+
+const providers = new Map<string, MarketDataProvider>();
+
+// Make a provider selectable by name, replacing any registered under the same name
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// Registered providers, for listing in the UI
+export function listMarketDataProviders(): Array<{ name: string; description: string }> {
+  return Array.from(providers.values()).map(({ name, description }) => ({ name, description }));
+}
+
+export function isMarketDataProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+// Name of the provider a strategy uses: its own choice, else the server's
+// MARKET_DATA_PROVIDER setting, else the default
+export function getMarketDataProviderName(name?: string): string {
+  return name || process.env.MARKET_DATA_PROVIDER || DEFAULT_PROVIDER;
+}
+
+// Look up a provider by name (see getMarketDataProviderName)
+export function getMarketDataProvider(name?: string): MarketDataProvider {
+  const providerName = getMarketDataProviderName(name);
+  const provider = providers.get(providerName);
+  if (!provider) {
+    throw new Error(`Unknown market data provider '${providerName}'`);
+  }
+  return provider;
+}
+
+// Imported data for the symbols that have it, generated data for the rest
+function createDefaultProvider(file: MarketDataProvider, synthetic: MarketDataProvider): MarketDataProvider {
+  return {
+    name: DEFAULT_PROVIDER,
+    description: 'Imported data where a symbol has it, generated data otherwise',
+    async getBars(symbol, startDate, endDate, options) {
+      return (await hasImportedData(symbol))
+        ? file.getBars(symbol, startDate, endDate, options)
+        : synthetic.getBars(symbol, startDate, endDate, options);
+    },
+    async getSymbols() {
+      const [generated, imported] = await Promise.all([synthetic.getSymbols(), file.getSymbols()]);
+      return generated.concat(imported.filter(symbol => !generated.includes(symbol)));
+    },
+    async getSymbolMetadata(symbol) {
+      return (await file.getSymbolMetadata(symbol)) || synthetic.getSymbolMetadata(symbol);
+    },
+    async getCacheKey(symbol, options) {
+      return (await hasImportedData(symbol))
+        ? file.getCacheKey(symbol, options)
+        : synthetic.getCacheKey(symbol, options);
+    },
+  };
+}
+
+const syntheticProvider = createSyntheticProvider();
+const fileProvider = createFileProvider();
+
+registerMarketDataProvider(createDefaultProvider(fileProvider, syntheticProvider));
+registerMarketDataProvider(syntheticProvider);
+registerMarketDataProvider(fileProvider);
+registerMarketDataProvider(createHttpProvider(process.env.MARKET_DATA_URL || 'http://localhost:5001'));
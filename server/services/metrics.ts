@@ -0,0 +1,242 @@
+import { SimulationResults, Trade } from '../../types';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+type EquityPoint = { date: string; equity: number };
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Sample standard deviation
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// Daily returns of the equity curve, the first day measured from the initial capital
+function getDailyReturns(initialCapital: number, equityCurve: EquityPoint[]): number[] {
+  return equityCurve.map((point, index) => {
+    const previous = index > 0 ? equityCurve[index - 1].equity : initialCapital;
+    return previous > 0 ? point.equity / previous - 1 : 0;
+  });
+}
+
+// Drawdown from the running peak at each point of the equity curve, in percent
+function getDrawdowns(initialCapital: number, equityCurve: EquityPoint[]): Array<{ date: string; drawdown: number }> {
+  let peak = initialCapital;
+
+  return equityCurve.map(point => {
+    if (point.equity > peak) {
+      peak = point.equity;
+    }
+
+    return {
+      date: point.date,
+      drawdown: ((peak - point.equity) / peak) * 100,
+    };
+  });
+}
+
+// Percentage of days with at least one position held at the close, and the
+// average number of trading days a trade was held
+function getHoldingStats(equityCurve: EquityPoint[], trades: Trade[]): { exposure: number; averageHoldingDays: number } {
+  const dateIndexes = new Map<string, number>();
+  equityCurve.forEach((point, index) => dateIndexes.set(point.date, index));
+
+  // Count open positions per day with a difference array over the curve's days
+  const openChanges = new Array(equityCurve.length + 1).fill(0);
+  const holdingDays: number[] = [];
+
+  trades.forEach(trade => {
+    const entryIndex = dateIndexes.get(trade.entryDate);
+    const exitIndex = trade.exitDate !== undefined ? dateIndexes.get(trade.exitDate) : undefined;
+    if (entryIndex === undefined || exitIndex === undefined) return;
+
+    openChanges[entryIndex]++;
+    openChanges[exitIndex]--;
+    holdingDays.push(exitIndex - entryIndex);
+  });
+
+  let open = 0;
+  let exposedDays = 0;
+  for (let i = 0; i < equityCurve.length; i++) {
+    open += openChanges[i];
+    if (open > 0) exposedDays++;
+  }
+
+  return {
+    exposure: equityCurve.length > 0 ? (exposedDays / equityCurve.length) * 100 : 0,
+    averageHoldingDays: mean(holdingDays),
+  };
+}
+
+// Longest runs of consecutive winning and losing trades, in the order they
+// closed. A break-even trade is neither, and ends both kinds of run.
+function getStreaks(trades: Trade[]): { longestWinStreak: number; longestLossStreak: number } {
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let wins = 0;
+  let losses = 0;
+
+  trades.forEach(trade => {
+    const pnl = trade.pnl || 0;
+    wins = pnl > 0 ? wins + 1 : 0;
+    losses = pnl < 0 ? losses + 1 : 0;
+
+    longestWinStreak = Math.max(longestWinStreak, wins);
+    longestLossStreak = Math.max(longestLossStreak, losses);
+  });
+
+  return { longestWinStreak, longestLossStreak };
+}
+
+// Sample covariance of two equally long series
+function covariance(a: number[], b: number[]): number {
+  if (a.length < 2) {
+    return 0;
+  }
+
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+// Strategy return on the days the benchmark moved one way, as a percentage of
+// the benchmark's return on those days
+function getCaptureRatio(returns: number[], benchmarkReturns: number[], up: boolean): number | undefined {
+  const days = benchmarkReturns
+    .map((benchmarkReturn, i) => ({ benchmarkReturn, strategyReturn: returns[i] }))
+    .filter(day => (up ? day.benchmarkReturn > 0 : day.benchmarkReturn < 0));
+
+  const benchmarkMean = mean(days.map(day => day.benchmarkReturn));
+  return benchmarkMean !== 0 ? (mean(days.map(day => day.strategyReturn)) / benchmarkMean) * 100 : undefined;
+}
+
+// Compare the strategy's daily returns with its benchmark's: Jensen's alpha and
+// beta against the risk-free rate, tracking error, information ratio and
+// up/down capture
+function getBenchmarkMetrics(
+  returns: number[],
+  benchmarkReturns: number[],
+  dailyRiskFree: number,
+  tradingDaysPerYear: number
+): Pick<SimulationResults['metrics'], 'alpha' | 'beta' | 'trackingError' | 'informationRatio' | 'upCapture' | 'downCapture'> {
+  const benchmarkVariance = standardDeviation(benchmarkReturns) ** 2;
+  const beta = benchmarkVariance > 0 ? covariance(returns, benchmarkReturns) / benchmarkVariance : undefined;
+  const alpha = beta !== undefined
+    ? (mean(returns) - dailyRiskFree - beta * (mean(benchmarkReturns) - dailyRiskFree)) * tradingDaysPerYear * 100
+    : undefined;
+
+  const activeReturns = returns.map((r, i) => r - benchmarkReturns[i]);
+  const activeDeviation = standardDeviation(activeReturns);
+  const annualization = Math.sqrt(tradingDaysPerYear);
+
+  return {
+    alpha,
+    beta,
+    trackingError: activeDeviation * annualization * 100,
+    informationRatio: activeDeviation > 0 ? (mean(activeReturns) / activeDeviation) * annualization : undefined,
+    upCapture: getCaptureRatio(returns, benchmarkReturns, true),
+    downCapture: getCaptureRatio(returns, benchmarkReturns, false),
+  };
+}
+
+// Calculate the performance of a simulation from its equity curve and closed
+// trades, and against its benchmark's equity curve when it has one. The
+// risk-free rate is an annual percentage; ratios are annualized over the
+// calendar's trading days per year (252 by default).
+export function calculatePerformance(
+  initialCapital: number,
+  equityCurve: EquityPoint[],
+  trades: Trade[],
+  riskFreeRate = 0,
+  benchmarkCurve?: EquityPoint[],
+  tradingDaysPerYear = TRADING_DAYS_PER_YEAR
+): Omit<SimulationResults, 'trades' | 'equityCurve' | 'benchmarkCurve'> {
+  const finalCapital = equityCurve[equityCurve.length - 1]?.equity || initialCapital;
+
+  const totalPnl = finalCapital - initialCapital;
+  const totalPnlPercentage = (totalPnl / initialCapital) * 100;
+
+  const winning = trades.filter(trade => (trade.pnl || 0) > 0);
+  const losing = trades.filter(trade => (trade.pnl || 0) < 0);
+  const totalTrades = trades.length;
+  const winRate = totalTrades > 0 ? (winning.length / totalTrades) * 100 : 0;
+
+  // Calculate drawdowns
+  const drawdowns = getDrawdowns(initialCapital, equityCurve);
+  const maxDrawdown = Math.max(...drawdowns.map(d => d.drawdown), 0);
+
+  // Calculate average trade
+  const averageTrade = mean(trades.map(trade => trade.pnlPercentage || 0));
+
+  // Calculate profit factor
+  const grossProfit = winning.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+  const grossLoss = Math.abs(losing.reduce((sum, trade) => sum + (trade.pnl || 0), 0));
+  const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0;
+
+  // Expectancy is the average dollar result per trade; the payoff ratio compares
+  // the average win to the average loss
+  const expectancy = mean(trades.map(trade => trade.pnl || 0));
+  const averageWin = mean(winning.map(trade => trade.pnl || 0));
+  const averageLoss = Math.abs(mean(losing.map(trade => trade.pnl || 0)));
+  const payoffRatio = averageLoss > 0 ? averageWin / averageLoss : undefined;
+
+  // Return-based ratios, against the daily equivalent of the risk-free rate
+  const returns = getDailyReturns(initialCapital, equityCurve);
+  const dailyRiskFree = (1 + riskFreeRate / 100) ** (1 / tradingDaysPerYear) - 1;
+  const excessReturns = returns.map(r => r - dailyRiskFree);
+  const annualization = Math.sqrt(tradingDaysPerYear);
+
+  const volatility = standardDeviation(returns);
+  const downsideDeviation = Math.sqrt(mean(excessReturns.map(r => Math.min(0, r) ** 2)));
+
+  const sharpeRatio = volatility > 0 ? (mean(excessReturns) / volatility) * annualization : undefined;
+  const sortinoRatio = downsideDeviation > 0 ? (mean(excessReturns) / downsideDeviation) * annualization : undefined;
+
+  const years = returns.length / tradingDaysPerYear;
+  const cagr = years > 0 && finalCapital > 0
+    ? ((finalCapital / initialCapital) ** (1 / years) - 1) * 100
+    : undefined;
+  const calmarRatio = cagr !== undefined && maxDrawdown > 0 ? cagr / maxDrawdown : undefined;
+
+  // Calculate trading costs
+  const totalCommission = trades.reduce((sum, trade) => sum + (trade.commission || 0), 0);
+  const totalSlippage = trades.reduce((sum, trade) => sum + (trade.slippage || 0), 0);
+
+  return {
+    totalPnl,
+    totalPnlPercentage,
+    winRate,
+    drawdowns,
+    metrics: {
+      sharpeRatio,
+      sortinoRatio,
+      calmarRatio,
+      cagr,
+      annualizedVolatility: volatility * annualization * 100,
+      maxDrawdown,
+      averageTrade,
+      profitFactor,
+      totalTrades,
+      winningTrades: winning.length,
+      losingTrades: losing.length,
+      ...getHoldingStats(equityCurve, trades),
+      ...getStreaks(trades),
+      expectancy,
+      payoffRatio,
+      ...(benchmarkCurve
+        ? getBenchmarkMetrics(returns, getDailyReturns(initialCapital, benchmarkCurve), dailyRiskFree, tradingDaysPerYear)
+        : {}),
+      totalCommission,
+      totalSlippage,
+      totalCosts: totalCommission + totalSlippage,
+    },
+  };
+}
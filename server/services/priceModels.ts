@@ -0,0 +1,109 @@
+import { PriceModel, PriceModelSettings } from '../../types';
+import { normal } from './random';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const DEFAULTS: Required<Omit<PriceModelSettings, 'model' | 'meanPrice'>> = {
+  drift: 8,
+  volatility: 25,
+  garchAlpha: 0.1,
+  garchBeta: 0.85,
+  jumpIntensity: 2,
+  jumpMean: -8,
+  jumpVolatility: 5,
+  meanReversionSpeed: 5,
+};
+
+// One day of a price process: the close, and the typical intraday range as a
+// fraction of the price, used to place the high and low
+export type PriceStep = { close: number; range: number };
+
+// Settings for a symbol: the model's own, with the symbol's overrides on top
+export function getPriceModelSettings(priceModel: PriceModel | undefined, symbol: string): PriceModelSettings {
+  if (!priceModel) {
+    return { model: 'randomWalk' };
+  }
+
+  const { symbols, correlation, ...settings } = priceModel;
+  return { ...settings, ...(symbols?.[symbol] || {}) };
+}
+
+// Create a price process for a symbol starting from a price. Each call of the
+// returned function advances it by one trading day, a year being
+// tradingDaysPerYear of them. The diffusion is driven by standard normal shocks
+// for each date, which may be correlated across symbols; by default they are
+// drawn independently.
+export function createPriceProcess(
+  settings: PriceModelSettings,
+  startPrice: number,
+  random: () => number,
+  shock: (date: string) => number = () => normal(random),
+  tradingDaysPerYear = TRADING_DAYS_PER_YEAR
+): (date: string) => PriceStep {
+  const dt = 1 / tradingDaysPerYear;
+  const drift = (settings.drift ?? DEFAULTS.drift) / 100;
+  const volatility = (settings.volatility ?? DEFAULTS.volatility) / 100;
+  const dailyVolatility = volatility * Math.sqrt(dt);
+  let price = startPrice;
+
+  // Log return of a GBM day with the given daily volatility
+  const diffusion = (sigma: number, date: string) =>
+    (drift - (sigma * sigma) / (2 * dt)) * dt + sigma * shock(date);
+
+  switch (settings.model) {
+    case 'gbm':
+      return date => {
+        price *= Math.exp(diffusion(dailyVolatility, date));
+        return { close: price, range: dailyVolatility };
+      };
+
+    case 'garch': {
+      const alpha = settings.garchAlpha ?? DEFAULTS.garchAlpha;
+      const beta = settings.garchBeta ?? DEFAULTS.garchBeta;
+      const longRunVariance = dailyVolatility * dailyVolatility;
+      const omega = longRunVariance * Math.max(0, 1 - alpha - beta);
+      let variance = longRunVariance;
+      let innovation = 0;
+
+      return date => {
+        variance = omega + alpha * innovation * innovation + beta * variance;
+        innovation = Math.sqrt(variance) * shock(date);
+        price *= Math.exp(drift * dt - variance / 2 + innovation);
+        return { close: price, range: Math.sqrt(variance) };
+      };
+    }
+
+    case 'jumpDiffusion': {
+      const jumpProbability = (settings.jumpIntensity ?? DEFAULTS.jumpIntensity) * dt;
+      const jumpMean = Math.log(1 + (settings.jumpMean ?? DEFAULTS.jumpMean) / 100);
+      const jumpVolatility = (settings.jumpVolatility ?? DEFAULTS.jumpVolatility) / 100;
+
+      return date => {
+        let logReturn = diffusion(dailyVolatility, date);
+        if (random() < jumpProbability) {
+          logReturn += jumpMean + jumpVolatility * normal(random);
+        }
+        price *= Math.exp(logReturn);
+        return { close: price, range: dailyVolatility };
+      };
+    }
+
+    case 'meanReversion': {
+      const speed = settings.meanReversionSpeed ?? DEFAULTS.meanReversionSpeed;
+      const logMean = Math.log(settings.meanPrice ?? startPrice);
+
+      return date => {
+        const logPrice = Math.log(price);
+        price = Math.exp(logPrice + speed * (logMean - logPrice) * dt + dailyVolatility * shock(date));
+        return { close: price, range: dailyVolatility };
+      };
+    }
+
+    case 'randomWalk':
+    default:
+      return () => {
+        price += (random() - 0.48) * 0.04 * price;
+        return { close: price, range: 0.01 };
+      };
+  }
+}
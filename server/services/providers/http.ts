@@ -0,0 +1,49 @@
+import axios from 'axios';
+import { format } from 'date-fns';
+import { PriceData, SymbolMetadata } from '../../../types';
+import type { MarketDataProvider } from '../marketData';
+
+// Data from a market data server speaking a small JSON protocol:
+//   GET /symbols                                      -> { symbols: string[] }
+//   GET /symbols/:symbol                              -> { symbol: SymbolMetadata }
+//   GET /bars/:symbol?startDate=&endDate=&seed=       -> { bars: PriceData[] }
+// Servers that generate data may also read the seed, a JSON priceModel and the
+// trading calendar; others ignore them. server/marketDataServer.ts is a local stand-in.
+export function createHttpProvider(baseUrl: string): MarketDataProvider {
+  const client = axios.create({ baseURL: baseUrl, timeout: 30000 });
+
+  return {
+    name: 'http',
+    description: `Market data server at ${baseUrl}`,
+    async getBars(symbol, startDate, endDate, { seed, priceModel, calendar }) {
+      const response = await client.get<{ bars: PriceData[] }>(`/bars/${encodeURIComponent(symbol)}`, {
+        params: {
+          startDate: startDate instanceof Date ? format(startDate, 'yyyy-MM-dd') : startDate,
+          endDate: endDate instanceof Date ? format(endDate, 'yyyy-MM-dd') : endDate,
+          seed,
+          priceModel: priceModel && JSON.stringify(priceModel),
+          calendar,
+        },
+      });
+      return response.data.bars;
+    },
+    async getSymbols() {
+      const response = await client.get<{ symbols: string[] }>('/symbols');
+      return response.data.symbols;
+    },
+    async getSymbolMetadata(symbol) {
+      try {
+        const response = await client.get<{ symbol: SymbolMetadata }>(`/symbols/${encodeURIComponent(symbol)}`);
+        return response.data.symbol;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) return undefined;
+        throw error;
+      }
+    },
+    // The server may generate its data from the request, as the stand-in does,
+    // so its bars are cached like generated ones
+    async getCacheKey(symbol, { seed, priceModel, calendar }) {
+      return { key: `http:${baseUrl}:${seed}:${calendar || ''}:${JSON.stringify(priceModel || {})}` };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { getAvailableSymbols, getHistoricalData, getSymbolMetadata } from '../financeApi';
+import { DEFAULT_CALENDAR } from '../calendars';
+import type { MarketDataProvider } from '../marketData';
+
+// Generated data from the configured price model. Every symbol can be
+// generated; only the built-in mock symbols are listed.
+export function createSyntheticProvider(): MarketDataProvider {
+  return {
+    name: 'synthetic',
+    description: 'Generated data from the strategy\'s price model and data seed',
+    getBars: (symbol, startDate, endDate, { seed, priceModel, calendar }) =>
+      getHistoricalData(symbol, startDate, endDate, seed, priceModel, calendar),
+    getSymbols: async () => getAvailableSymbols(),
+    getSymbolMetadata: async symbol => getSymbolMetadata(symbol),
+    getCacheKey: async (symbol, { seed, priceModel, calendar }) => ({
+      key: `synthetic:${seed}:${calendar || DEFAULT_CALENDAR}:${JSON.stringify(priceModel || {})}`,
+    }),
+  };
+}
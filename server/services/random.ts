@@ -0,0 +1,38 @@
+// Seeded pseudo-random numbers, so synthetic market data can be reproduced
+
+// Hash a string to a 32-bit seed (MurmurHash3's finalizer over a simple mix)
+function hashSeed(key: string): number {
+  let hash = 1779033703 ^ key.length;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+// Create a generator of uniform numbers in [0, 1) from a seed key, using the
+// mulberry32 algorithm. The same key always yields the same sequence.
+export function createRandom(key: string): () => number {
+  let state = hashSeed(key);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw from two uniform draws (Box-Muller)
+export function normal(random: () => number): number {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// A fresh seed for runs that do not specify one
+export function createSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
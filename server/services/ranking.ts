@@ -0,0 +1,90 @@
+import { getIndicatorValue } from './indicators';
+import { PriceData, RankBy, RankMetric } from '../../types';
+
+const DEFAULT_PERIODS: Record<RankMetric, number> = {
+  rsi: 14,
+  momentum: 20,
+  volatility: 20,
+  relativeVolume: 20,
+};
+
+// An entry signal waiting for a free position slot
+export type Candidate = {
+  symbol: string;
+  history: PriceData[];
+  index: number; // the signal bar
+};
+
+// Normalize buyConfig.rankBy, which may also be given as just a metric name
+function getRankBy(rankBy: RankBy | RankMetric | undefined): RankBy | undefined {
+  const normalized = typeof rankBy === 'string' ? { metric: rankBy } : rankBy;
+  return normalized && Object.prototype.hasOwnProperty.call(DEFAULT_PERIODS, normalized.metric) ? normalized : undefined;
+}
+
+// Bars of history the ranking metric needs before the first simulated day
+export function getRankingLookbackBars(rankBy: RankBy | RankMetric | undefined): number {
+  const normalized = getRankBy(rankBy);
+  return normalized ? (normalized.period || DEFAULT_PERIODS[normalized.metric]) + 1 : 0;
+}
+
+// Standard deviation of the daily close-to-close returns over the period ending at a bar
+function getReturnVolatility(history: PriceData[], index: number, period: number): number | undefined {
+  if (index < period) {
+    return undefined;
+  }
+
+  const returns: number[] = [];
+  for (let i = index - period + 1; i <= index; i++) {
+    returns.push((history[i].close - history[i - 1].close) / history[i - 1].close);
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+
+  return Math.sqrt(variance);
+}
+
+// Score a candidate on the ranking metric at its signal bar
+function scoreCandidate(rankBy: RankBy, candidate: Candidate): number | undefined {
+  const { history, index } = candidate;
+  const period = rankBy.period || DEFAULT_PERIODS[rankBy.metric];
+
+  switch (rankBy.metric) {
+    case 'rsi':
+      return getIndicatorValue({ indicator: 'rsi', period }, history, index);
+    case 'momentum':
+      return getIndicatorValue({ indicator: 'roc', period }, history, index);
+    case 'volatility':
+      return getReturnVolatility(history, index, period);
+    case 'relativeVolume': {
+      // The bar's volume against the average of the bars before it
+      const averageVolume = getIndicatorValue({ indicator: 'sma', source: 'volume', period }, history, index - 1);
+      return averageVolume ? history[index].volume / averageVolume : undefined;
+    }
+  }
+}
+
+// Order a day's entry candidates best first. Without a ranking the candidates
+// keep their symbol order; candidates whose metric is still warming up go last.
+export function rankCandidates<T extends Candidate>(
+  rankBy: RankBy | RankMetric | undefined,
+  candidates: T[]
+): T[] {
+  const normalized = getRankBy(rankBy);
+  if (!normalized) {
+    return candidates;
+  }
+
+  const order = normalized.order || (normalized.metric === 'volatility' ? 'asc' : 'desc');
+  const direction = order === 'asc' ? 1 : -1;
+
+  return candidates
+    .map((candidate, position) => ({ candidate, position, score: scoreCandidate(normalized, candidate) }))
+    .sort((a, b) => {
+      if (a.score === undefined || b.score === undefined) {
+        return a.score === b.score ? a.position - b.position : a.score === undefined ? 1 : -1;
+      }
+      return direction * (a.score - b.score) || a.position - b.position;
+    })
+    .map(({ candidate }) => candidate);
+}
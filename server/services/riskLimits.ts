@@ -0,0 +1,168 @@
+import { PriceData, RiskLimitRule, RiskLimits } from '../../types';
+
+const DEFAULT_CORRELATION_LOOKBACK = 60;
+
+// Fewest returns two symbols must share for their correlation to be trusted;
+// with fewer the correlation rule lets the signal through
+const MIN_CORRELATION_RETURNS = 10;
+
+// Rejected signals kept with the results; the count covers every rejection
+export const MAX_REJECTED_SIGNALS = 1000;
+
+// A risk limit an entry would break, and why
+export type RiskBreach = {
+  rule: RiskLimitRule;
+  reason: string;
+};
+
+// A symbol held (or about to be) when a signal is checked
+export type Holding = {
+  symbol: string;
+  history: PriceData[];
+  sector?: string;
+  value: number; // market value, positive for shorts too
+};
+
+// Bars of history the correlation rule needs before the first simulated day
+export function getRiskLookbackBars(limits: RiskLimits | undefined): number {
+  return limits?.maxCorrelation !== undefined ? (limits.correlationLookback || DEFAULT_CORRELATION_LOOKBACK) + 1 : 0;
+}
+
+// Index of the last bar on or before a date, or -1 if there is none
+function indexAtDate(history: PriceData[], date: string): number {
+  let low = 0;
+  let high = history.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (history[middle].date <= date) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+}
+
+// Daily close-to-close returns over the bars up to a date, keyed by date
+function getReturnsByDate(history: PriceData[], date: string, lookback: number): Map<string, number> {
+  const returns = new Map<string, number>();
+  const index = indexAtDate(history, date);
+
+  for (let i = Math.max(1, index - lookback + 1); i <= index; i++) {
+    returns.set(history[i].date, (history[i].close - history[i - 1].close) / history[i - 1].close);
+  }
+
+  return returns;
+}
+
+// Pearson correlation of two symbols' returns on the dates both have one
+function getCorrelation(a: Map<string, number>, b: Map<string, number>): number | undefined {
+  const dates = Array.from(a.keys()).filter(date => b.has(date));
+  if (dates.length < MIN_CORRELATION_RETURNS) {
+    return undefined;
+  }
+
+  const x = dates.map(date => a.get(date)!);
+  const y = dates.map(date => b.get(date)!);
+  const meanX = x.reduce((sum, value) => sum + value, 0) / x.length;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  x.forEach((value, i) => {
+    covariance += (value - meanX) * (y[i] - meanY);
+    varianceX += (value - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  });
+
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : undefined;
+}
+
+// Check the limits decided when a signal fires, before it takes a position
+// slot: positions per symbol, and correlation with the other symbols held.
+// Limits that are not set are not checked.
+export function checkSignalLimits(
+  limits: RiskLimits | undefined,
+  symbol: string,
+  history: PriceData[],
+  index: number,
+  holdings: Holding[]
+): RiskBreach | undefined {
+  const maxPerSymbol = limits?.maxPositionsPerSymbol;
+  const held = holdings.filter(holding => holding.symbol === symbol).length;
+  if (maxPerSymbol !== undefined && held >= maxPerSymbol) {
+    return {
+      rule: 'symbolLimit',
+      reason: `Already holds ${held} position${held === 1 ? '' : 's'} in ${symbol} (limit ${maxPerSymbol})`,
+    };
+  }
+
+  if (limits?.maxCorrelation === undefined) {
+    return undefined;
+  }
+
+  const date = history[index].date;
+  const lookback = limits.correlationLookback || DEFAULT_CORRELATION_LOOKBACK;
+  const returns = getReturnsByDate(history, date, lookback);
+  const checked = new Set<string>([symbol]);
+
+  for (const holding of holdings) {
+    if (checked.has(holding.symbol)) continue;
+    checked.add(holding.symbol);
+
+    const correlation = getCorrelation(returns, getReturnsByDate(holding.history, date, lookback));
+    if (correlation !== undefined && correlation > limits.maxCorrelation) {
+      return {
+        rule: 'correlation',
+        reason: `Correlation with ${holding.symbol} is ${correlation.toFixed(2)} (limit ${limits.maxCorrelation})`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+// Check the exposure limits once a new position is sized: the gross exposure,
+// and the exposure to the new position's sector
+export function checkExposureLimits(
+  limits: RiskLimits | undefined,
+  entry: { sector?: string; value: number },
+  holdings: Holding[],
+  equity: number
+): RiskBreach | undefined {
+  if (!limits || equity <= 0) {
+    return undefined;
+  }
+
+  const toPercent = (value: number) => (value / equity) * 100;
+
+  if (limits.maxGrossExposure !== undefined) {
+    const gross = toPercent(holdings.reduce((sum, holding) => sum + holding.value, entry.value));
+    if (gross > limits.maxGrossExposure) {
+      return {
+        rule: 'grossExposure',
+        reason: `Gross exposure would be ${gross.toFixed(1)}% of equity (limit ${limits.maxGrossExposure}%)`,
+      };
+    }
+  }
+
+  if (limits.maxSectorExposure !== undefined && entry.sector) {
+    const sectorValue = holdings
+      .filter(holding => holding.sector === entry.sector)
+      .reduce((sum, holding) => sum + holding.value, entry.value);
+    const exposure = toPercent(sectorValue);
+    if (exposure > limits.maxSectorExposure) {
+      return {
+        rule: 'sectorExposure',
+        reason: `${entry.sector} exposure would be ${exposure.toFixed(1)}% of equity (limit ${limits.maxSectorExposure}%)`,
+      };
+    }
+  }
+
+  return undefined;
+}
@@ -1,84 +1,74 @@
-import { format, parseISO, isAfter, isBefore, parse } from 'date-fns';
-import { getHistoricalData } from './financeApi';
-import { Strategy, SimulationResults, PriceData, Trade } from '../../types';
+import { format, parseISO, isAfter, isBefore, parse, subDays } from 'date-fns';
+import { getConfiguredDataSeed, getDefaultDataSeed } from './financeApi';
+import { getMarketDataProvider, getMarketDataProviderName } from './marketData';
+import { getCachedBars } from './barCache';
+import { getTradingCalendar } from './calendars';
+import { getSymbolsMetadata, resolveUniverse } from './universe';
+import {
+  checkExposureLimits,
+  checkSignalLimits,
+  getRiskLookbackBars,
+  Holding,
+  MAX_REJECTED_SIGNALS,
+  RiskBreach,
+} from './riskLimits';
+import { getLookbackBars, isKnownIndicator } from './indicators';
+import { evaluateConditionTree, getRuleTree } from './conditions';
+import {
+  checkExits,
+  createExitState,
+  ExitState,
+  getExitIndicatorSpecs,
+  getSellRules,
+  updateExitState,
+} from './exits';
+import { fillsOnNextBar, getFillPrice } from './execution';
+import { applySlippage, getCommission, getSlippageRate } from './costs';
+import { getSizingLookbackBars, sizePosition } from './sizing';
+import { getRankingLookbackBars, rankCandidates } from './ranking';
+import { alignBars } from './bars';
+import { calculatePerformance } from './metrics';
+import { getBenchmarkCurve, getBenchmarkSymbols } from './benchmark';
+import {
+  Strategy,
+  SimulationResults,
+  PriceData,
+  Trade,
+  IndicatorSpec,
+  ConditionNode,
+  ExitReason,
+  FillModel,
+  TradeSide,
+  ShortEntryConfig,
+  ShortCoverConfig,
+  RejectedSignal,
+} from '../../types';
 
-// Helper function to evaluate a condition based on the scanner config
-function evaluateCondition(
-  condition: any,
-  priceData: PriceData,
-  previousPriceData?: PriceData
-): boolean {
-  // This is a simplified implementation that could be expanded
-  // based on more complex conditions defined in the scanner config
-  
-  if (!condition || !condition.indicator || !condition.operator || condition.value === undefined) {
-    return false;
-  }
-  
-  const { indicator, operator, value } = condition;
-  
-  // Get the actual value based on the indicator
-  let actualValue: number;
-  
-  switch (indicator) {
-    case 'price':
-      actualValue = priceData.close;
-      break;
-    case 'volume':
-      actualValue = priceData.volume;
-      break;
-    case 'priceChange':
-      if (!previousPriceData) return false;
-      actualValue = ((priceData.close - previousPriceData.close) / previousPriceData.close) * 100;
-      break;
-    // Add more indicators as needed
-    default:
-      return false;
-  }
-  
-  // Evaluate the condition
-  switch (operator) {
-    case '>':
-      return actualValue > value;
-    case '<':
-      return actualValue < value;
-    case '>=':
-      return actualValue >= value;
-    case '<=':
-      return actualValue <= value;
-    case '==':
-      return actualValue === value;
-    default:
-      return false;
-  }
-}
-
-// Function to evaluate buy conditions
+// Function to evaluate buy conditions (or short-entry conditions)
 function shouldBuy(
   buyConfig: Record<string, any>,
-  priceData: PriceData,
-  previousPriceData?: PriceData
+  history: PriceData[],
+  index: number
 ): boolean {
-  // Check if there are conditions in the buy config
-  if (!buyConfig.conditions || !Array.isArray(buyConfig.conditions) || buyConfig.conditions.length === 0) {
+  // Legacy flat condition lists must all be true (AND logic)
+  const rules = getRuleTree(buyConfig, 'all');
+  
+  // Without any rules there is never a buy signal
+  if (!rules) {
     return false;
   }
   
-  // Evaluate all conditions (assuming all conditions must be true - AND logic)
-  return buyConfig.conditions.every((condition: any) => 
-    evaluateCondition(condition, priceData, previousPriceData)
-  );
+  return evaluateConditionTree(rules, { history, index });
 }
 
-// Function to evaluate sell conditions
+// Function to evaluate sell signal conditions (price-level exits are handled by the exit rules)
 function shouldSell(
-  sellConfig: Record<string, any>,
-  priceData: PriceData,
-  previousPriceData?: PriceData,
+  sellRules: ConditionNode | undefined,
+  history: PriceData[],
+  index: number,
   trade?: Trade
 ): boolean {
-  // Check if there are conditions in the sell config
-  if (!sellConfig.conditions || !Array.isArray(sellConfig.conditions) || sellConfig.conditions.length === 0) {
+  if (!sellRules) {
     return false;
   }
   
@@ -87,20 +77,37 @@ function shouldSell(
     return false;
   }
   
-  // Evaluate all conditions (assuming all conditions must be true - AND logic)
-  const conditionsMet = sellConfig.conditions.some((condition: any) => {
-    if (condition.type === 'stopLoss') {
-      const currentLoss = ((priceData.close - trade.entryPrice) / trade.entryPrice) * 100;
-      return currentLoss <= -condition.value;
-    } else if (condition.type === 'takeProfit') {
-      const currentProfit = ((priceData.close - trade.entryPrice) / trade.entryPrice) * 100;
-      return currentProfit >= condition.value;
-    } else {
-      return evaluateCondition(condition, priceData, previousPriceData);
+  return evaluateConditionTree(sellRules, { history, index, trade });
+}
+
+// Function to evaluate scanner conditions; a strategy without a scanner passes everything
+function passesScanner(
+  scannerConfig: Record<string, any>,
+  history: PriceData[],
+  index: number
+): boolean {
+  // Legacy flat condition lists must all be true (AND logic)
+  const rules = getRuleTree(scannerConfig, 'all');
+  
+  if (!rules) {
+    return true;
+  }
+  
+  return evaluateConditionTree(rules, { history, index });
+}
+
+// Collect every indicator spec referenced anywhere in a strategy config
+function collectIndicatorSpecs(config: any, specs: IndicatorSpec[] = []): IndicatorSpec[] {
+  if (Array.isArray(config)) {
+    config.forEach(item => collectIndicatorSpecs(item, specs));
+  } else if (config && typeof config === 'object') {
+    if (typeof config.indicator === 'string' && isKnownIndicator(config.indicator)) {
+      specs.push(config as IndicatorSpec);
     }
-  });
+    Object.values(config).forEach(value => collectIndicatorSpecs(value, specs));
+  }
   
-  return conditionsMet;
+  return specs;
 }
 
 // Main simulation function
@@ -117,223 +124,441 @@ export async function runSimulation(strategy: Strategy): Promise<SimulationResul
   let allTrades: Trade[] = [];
   const equityCurve: Array<{ date: string; equity: number }> = [];
   
-  // Fetch historical data for all symbols
+  // Short entries and covers are configured beside the long rules
+  const shortConfig: ShortEntryConfig | undefined = buyConfig.short;
+  const coverConfig: ShortCoverConfig = sellConfig.cover || {};
+  
+  // Split the sell and cover configs into price-level exits and signal rules
+  const sellRulesBySide: Record<TradeSide, ReturnType<typeof getSellRules>> = {
+    long: getSellRules(sellConfig),
+    short: getSellRules(coverConfig),
+  };
+  const exitStates = new Map<Trade, ExitState>();
+  
+  // The exchange calendar decides which days are traded
+  const calendar = getTradingCalendar(simulationConfig.calendar);
+  
+  // Fetch extra history before the start date so indicators are warmed up
+  // by the first simulated day (converting trading days to calendar days at
+  // the calendar's yearly rate, with a week to spare for holidays)
+  const warmupBars = Math.max(
+    0,
+    ...collectIndicatorSpecs([scannerConfig, buyConfig, sellConfig])
+      .concat(getExitIndicatorSpecs(sellRulesBySide.long.exits))
+      .concat(getExitIndicatorSpecs(sellRulesBySide.short.exits))
+      .map(getLookbackBars),
+    getSizingLookbackBars(simulationConfig.sizing),
+    getRankingLookbackBars(buyConfig.rankBy),
+    getRiskLookbackBars(simulationConfig.riskLimits)
+  );
+  const dataStartDate = warmupBars > 0
+    ? subDays(new Date(startDate), Math.ceil(warmupBars * 365 / calendar.tradingDaysPerYear) + 7)
+    : startDate;
+  const firstTradingDate = format(new Date(startDate), 'yyyy-MM-dd');
+  
+  // Fetch historical data for all symbols from the strategy's data provider,
+  // through the bar cache. The provider and the seed are stored with the
+  // results so the run can be reproduced. Bars for a random seed are not
+  // cached, as no other run would read them back.
+  const dataProvider = getMarketDataProviderName(simulationConfig.dataProvider);
+  const provider = getMarketDataProvider(dataProvider);
+  const configuredSeed = simulationConfig.dataSeed ?? getConfiguredDataSeed();
+  const dataSeed = configuredSeed ?? getDefaultDataSeed();
+  const cacheBars = configuredSeed !== undefined;
+  const barOptions = { seed: dataSeed, priceModel: simulationConfig.priceModel, calendar: calendar.name };
   const historicalDataBySymbol: Record<string, PriceData[]> = {};
   
-  for (const symbol of simulationConfig.symbols) {
-    historicalDataBySymbol[symbol] = await getHistoricalData(symbol, startDate, endDate);
+  // The symbols to scan, stored with the results as the universe can change
+  // between runs
+  const universe = await resolveUniverse(
+    simulationConfig,
+    provider,
+    firstTradingDate,
+    format(new Date(endDate), 'yyyy-MM-dd')
+  );
+  
+  await Promise.all(universe.symbols.map(async symbol => {
+    historicalDataBySymbol[symbol] = await getCachedBars(provider, symbol, dataStartDate, endDate, barOptions, cacheBars);
+  }));
+  
+  // Create a sorted list of all trading days, with each symbol's bar index on every day
+  const { dates: allDates, barIndexes } = alignBars(historicalDataBySymbol, firstTradingDate, calendar.isTradingDay);
+  
+  // Fetch a benchmark symbol the strategy does not trade itself, over the same
+  // range as the traded symbols so both come from the same bar requests
+  const benchmarkDataBySymbol: Record<string, PriceData[]> = { ...historicalDataBySymbol };
+  for (const symbol of getBenchmarkSymbols(simulationConfig.benchmark, universe.symbols)) {
+    benchmarkDataBySymbol[symbol] = await getCachedBars(provider, symbol, dataStartDate, endDate, barOptions, cacheBars);
+  }
+  
+  // Sectors are only looked up when a sector limit needs them
+  const riskLimits = simulationConfig.riskLimits;
+  const sectorBySymbol = new Map<string, string | undefined>();
+  if (riskLimits?.maxSectorExposure !== undefined) {
+    (await getSymbolsMetadata(provider, universe.symbols)).forEach((metadata, symbol) => {
+      sectorBySymbol.set(symbol, metadata.sector);
+    });
   }
   
-  // Create a sorted list of all trading days
-  const allDates = Object.values(historicalDataBySymbol)
-    .flat()
-    .map(data => data.date)
-    .filter((date, index, self) => self.indexOf(date) === index)
-    .sort();
+  // Entry signals the risk limits stopped
+  const rejectedSignals: RejectedSignal[] = [];
+  let rejectedSignalCount = 0;
+  
+  const fillModel: FillModel = simulationConfig.fillModel || 'sameBarClose';
+  const costs = simulationConfig.costs;
+  const fillsNextBar = fillsOnNextBar(fillModel);
+  
+  // Orders signalled at a bar's close that fill on the symbol's next bar. An
+  // entry keeps the value it was sized at on its signal bar.
+  let pendingEntries: Array<{ symbol: string; side: TradeSide; value: number }> = [];
+  let pendingExits: Array<{ position: Trade; reason: ExitReason }> = [];
+  
+  // Helper to find a symbol's bar for a day of the simulation
+  const getPriceData = (symbol: string, dateIndex: number): PriceData | undefined => {
+    const barIndex = barIndexes[symbol][dateIndex];
+    return barIndex === -1 ? undefined : historicalDataBySymbol[symbol][barIndex];
+  };
+  
+  // Helper to get the slippage rate for an order on a symbol's bar
+  const getOrderSlippage = (symbol: string, barIndex: number) =>
+    getSlippageRate(costs, historicalDataBySymbol[symbol], barIndex);
+  
+  // Helper to value a position at a price. A short is held as the collateral
+  // locked when it was opened plus its unrealised P&L.
+  const getPositionValue = (position: Trade, price: number) =>
+    position.side === 'short'
+      ? (2 * position.entryPrice - price) * position.quantity
+      : price * position.quantity;
+  
+  // Helper to find a symbol's latest close on or before a day of the simulation
+  const getLastClose = (symbol: string, dateIndex: number): number | undefined => {
+    for (let d = dateIndex; d >= 0; d--) {
+      const priceData = getPriceData(symbol, d);
+      if (priceData) return priceData.close;
+    }
+    return undefined;
+  };
+  
+  // Helper to describe the open positions, and any entries waiting to fill, for
+  // the risk limits, valued at the closes of a day
+  const getHoldings = (dateIndex: number): Holding[] =>
+    positions
+      .map(position => ({
+        symbol: position.symbol,
+        value: (getLastClose(position.symbol, dateIndex) ?? position.entryPrice) * position.quantity,
+      }))
+      .concat(pendingEntries.map(order => ({ symbol: order.symbol, value: order.value })))
+      .map(holding => ({
+        ...holding,
+        history: historicalDataBySymbol[holding.symbol],
+        sector: sectorBySymbol.get(holding.symbol),
+      }));
+  
+  // Helper to log an entry signal a risk limit stopped
+  const rejectSignal = (date: string, symbol: string, side: TradeSide, breach: RiskBreach) => {
+    rejectedSignalCount++;
+    if (rejectedSignals.length < MAX_REJECTED_SIGNALS) {
+      rejectedSignals.push({ date, symbol, side, ...breach });
+    }
+  };
+  
+  // Helper to close a position on one of its symbol's bars and return its
+  // proceeds (or a short's collateral and P&L) to cash
+  const closePosition = (position: Trade, barIndex: number, price: number, reason: ExitReason) => {
+    const isShort = position.side === 'short';
+    const fillPrice = applySlippage(price, getOrderSlippage(position.symbol, barIndex), isShort ? 'buy' : 'sell');
+    const commission = getCommission(costs, position.quantity, fillPrice);
+    
+    position.exitDate = historicalDataBySymbol[position.symbol][barIndex].date;
+    position.exitPrice = fillPrice;
+    position.exitReason = reason;
+    position.status = 'closed';
+    position.commission = (position.commission || 0) + commission;
+    position.slippage = (position.slippage || 0) + Math.abs(price - fillPrice) * position.quantity;
+    
+    // Calculate P&L net of commissions; a short profits as the price falls
+    const costBasis = position.entryPrice * position.quantity;
+    const priceChange = isShort ? position.entryPrice - fillPrice : fillPrice - position.entryPrice;
+    position.pnl = priceChange * position.quantity - position.commission;
+    position.pnlPercentage = (position.pnl / costBasis) * 100;
+    
+    // Update cash
+    cash += getPositionValue(position, fillPrice) - commission;
+    
+    // Remove from active positions and add to all trades
+    positions = positions.filter(p => p !== position);
+    allTrades.push(position);
+    exitStates.delete(position);
+  };
+  
+  // Helper to value the portfolio at a day's closes
+  const getEquity = (dateIndex: number) =>
+    positions.reduce((total, position) => {
+      const symbolPriceData = getPriceData(position.symbol, dateIndex);
+      
+      if (symbolPriceData) {
+        return total + getPositionValue(position, symbolPriceData.close);
+      }
+      
+      return total;
+    }, cash);
+  
+  // Helper to size a position on one of the symbol's bars at a price
+  const getPositionSize = (symbol: string, side: TradeSide, barIndex: number, price: number, equity: number) =>
+    sizePosition(simulationConfig, {
+      symbol,
+      side,
+      price,
+      equity,
+      history: historicalDataBySymbol[symbol],
+      index: barIndex,
+      exits: sellRulesBySide[side].exits,
+      closedTrades: allTrades,
+    });
+  
+  // Helper to open a position on one of the symbol's bars at a fill price, if
+  // there is enough cash and the exposure limits allow it (the other holdings
+  // are valued at the closes of valuationIndex, the day equity was taken on).
+  // A short locks its full entry value as collateral until it is covered.
+  const openPosition = (
+    symbol: string,
+    side: TradeSide,
+    barIndex: number,
+    price: number,
+    equity: number,
+    valuationIndex: number
+  ) => {
+    const history = historicalDataBySymbol[symbol];
+    
+    // Calculate position size
+    const positionValue = getPositionSize(symbol, side, barIndex, price, equity);
+    
+    // Skip if not enough cash
+    if (cash < positionValue) return;
+    
+    const breach = checkExposureLimits(
+      riskLimits,
+      { sector: sectorBySymbol.get(symbol), value: positionValue },
+      getHoldings(valuationIndex),
+      equity
+    );
+    if (breach) {
+      rejectSignal(history[barIndex].date, symbol, side, breach);
+      return;
+    }
+    
+    const fillPrice = applySlippage(price, getOrderSlippage(symbol, barIndex), side === 'short' ? 'sell' : 'buy');
+    
+    // Calculate quantity (ensuring it's a whole number), leaving room for the commission
+    let quantity = Math.floor(positionValue / fillPrice);
+    let commission = getCommission(costs, quantity, fillPrice);
+    if (quantity * fillPrice + commission > cash) {
+      quantity = Math.floor((cash - commission) / fillPrice);
+      commission = getCommission(costs, quantity, fillPrice);
+    }
+    
+    // Skip if quantity is zero
+    if (quantity <= 0) return;
+    
+    // Create new position
+    const newTrade: Trade = {
+      symbol,
+      side,
+      entryDate: history[barIndex].date,
+      entryPrice: fillPrice,
+      quantity,
+      status: 'open',
+      commission,
+      slippage: Math.abs(fillPrice - price) * quantity
+    };
+    
+    // Update cash
+    cash -= newTrade.entryPrice * newTrade.quantity + commission;
+    
+    // Add to positions
+    positions.push(newTrade);
+    exitStates.set(newTrade, createExitState(newTrade));
+  };
   
   // Simulation loop for each day
   for (let i = 0; i < allDates.length; i++) {
     const currentDate = allDates[i];
-    const previousDate = i > 0 ? allDates[i - 1] : null;
+    
+    // Fill orders signalled at the previous close, exits first to free up cash
+    if (fillsNextBar) {
+      const exitOrders = pendingExits;
+      pendingExits = [];
+      for (const order of exitOrders) {
+        const barIndex = barIndexes[order.position.symbol][i];
+        
+        // Keep the order until the symbol trades again
+        if (barIndex === -1) {
+          pendingExits.push(order);
+          continue;
+        }
+        
+        const priceData = historicalDataBySymbol[order.position.symbol][barIndex];
+        closePosition(order.position, barIndex, getFillPrice(fillModel, priceData), order.reason);
+      }
+      
+      // Entries are sized from the equity at the close they were signalled on
+      const entryOrders = pendingEntries;
+      const signalEquity = i > 0 ? getEquity(i - 1) : cash;
+      pendingEntries = [];
+      for (const order of entryOrders) {
+        if (positions.length >= simulationConfig.maxPositions) break;
+        
+        // Entry signals go stale if the symbol does not trade on the next day
+        const barIndex = barIndexes[order.symbol][i];
+        if (barIndex === -1) continue;
+        
+        const priceData = historicalDataBySymbol[order.symbol][barIndex];
+        openPosition(order.symbol, order.side, barIndex, getFillPrice(fillModel, priceData), signalEquity, i - 1);
+      }
+    }
     
     // Check for sell signals first
     const openPositions = [...positions];
     for (const position of openPositions) {
-      // Skip if position is already closed
+      // Skip if position is already closed or waiting for its exit to fill
       if (position.status === 'closed') continue;
+      if (pendingExits.some(order => order.position === position)) continue;
+      
+      // A position filled at the day's VWAP has no defined path through the
+      // rest of the bar, so its exits are checked from the next day
+      if (fillModel === 'nextBarVwap' && position.entryDate === currentDate) continue;
 
       const symbol = position.symbol;
-      const currentPriceData = historicalDataBySymbol[symbol].find(
-        data => data.date === currentDate
-      );
+      const history = historicalDataBySymbol[symbol];
+      const currentIndex = barIndexes[symbol][i];
+      
+      if (currentIndex === -1) continue;
+      
+      const currentPriceData = history[currentIndex];
+      const exitState = exitStates.get(position)!;
+      const { exits, signal: sellRules } = sellRulesBySide[position.side || 'long'];
       
-      if (!currentPriceData) continue;
+      // Resting stop and take-profit orders fill during the bar
+      const exitSignal = checkExits(exits, position, exitState, history, currentIndex);
+      if (exitSignal && exitSignal.reason !== 'timeStop') {
+        closePosition(position, currentIndex, exitSignal.price, exitSignal.reason);
+        continue;
+      }
+      
+      // Time exits and sell signals are decided at the close
+      const reason: ExitReason | undefined = exitSignal
+        ? exitSignal.reason
+        : shouldSell(sellRules, history, currentIndex, position)
+        ? 'signal'
+        : undefined;
+      
+      if (reason && !fillsNextBar) {
+        closePosition(position, currentIndex, currentPriceData.close, reason);
+        continue;
+      }
       
-      let previousPriceData;
-      if (previousDate) {
-        previousPriceData = historicalDataBySymbol[symbol].find(
-          data => data.date === previousDate
-        );
+      if (reason) {
+        pendingExits.push({ position, reason });
       }
       
-      if (shouldSell(sellConfig, currentPriceData, previousPriceData, position)) {
-        // Close the position
-        position.exitDate = currentDate;
-        position.exitPrice = currentPriceData.close;
-        position.status = 'closed';
+      updateExitState(exits, position, exitState, currentPriceData);
+    }
+    
+    // Check for buy signals, then short-entry signals on symbols without a buy
+    // signal, unless every position slot is already taken
+    const candidates: Array<{ symbol: string; side: TradeSide; history: PriceData[]; index: number }> = [];
+    
+    if (positions.length + pendingEntries.length < simulationConfig.maxPositions) {
+      for (const symbol of universe.symbols) {
+        const history = historicalDataBySymbol[symbol];
+        const currentIndex = barIndexes[symbol][i];
         
-        // Calculate P&L
-        position.pnl = (position.exitPrice! - position.entryPrice) * position.quantity;
-        position.pnlPercentage = ((position.exitPrice! - position.entryPrice) / position.entryPrice) * 100;
+        if (currentIndex === -1 || !universe.isListed(symbol, currentDate)) continue;
         
-        // Update cash
-        cash += position.exitPrice! * position.quantity;
+        // Check scanner conditions first
+        if (!passesScanner(scannerConfig, history, currentIndex)) continue;
         
-        // Remove from active positions
-        positions = positions.filter(p => p !== position);
+        const side: TradeSide | undefined = shouldBuy(buyConfig, history, currentIndex)
+          ? 'long'
+          : shortConfig && shouldBuy(shortConfig, history, currentIndex)
+          ? 'short'
+          : undefined;
         
-        // Add to all trades
-        allTrades.push(position);
+        if (side) {
+          candidates.push({ symbol, side, history, index: currentIndex });
+        }
       }
     }
     
-    // Check for buy signals
-    for (const symbol of simulationConfig.symbols) {
+    // The best-ranked candidates fill the free slots
+    for (const candidate of rankCandidates(buyConfig.rankBy, candidates)) {
       // Skip if maximum positions reached
-      if (positions.length >= simulationConfig.maxPositions) {
+      if (positions.length + pendingEntries.length >= simulationConfig.maxPositions) {
         break;
       }
       
-      const currentPriceData = historicalDataBySymbol[symbol].find(
-        data => data.date === currentDate
-      );
-      
-      if (!currentPriceData) continue;
-      
-      let previousPriceData: PriceData | undefined;
-      if (previousDate) {
-        previousPriceData = historicalDataBySymbol[symbol].find(
-          data => data.date === previousDate
-        );
+      const breach = checkSignalLimits(riskLimits, candidate.symbol, candidate.history, candidate.index, getHoldings(i));
+      if (breach) {
+        rejectSignal(currentDate, candidate.symbol, candidate.side, breach);
+        continue;
       }
       
-      // Check scanner conditions first
-      const passesScanner = !scannerConfig.conditions || scannerConfig.conditions.every(
-        (condition: any) => evaluateCondition(condition, currentPriceData, previousPriceData)
-      );
-      
-      if (passesScanner && shouldBuy(buyConfig, currentPriceData, previousPriceData)) {
-        // Calculate position size
-        const positionValue = (simulationConfig.positionSize / 100) * simulationConfig.initialCapital;
-        
-        // Skip if not enough cash
-        if (cash < positionValue) continue;
-        
-        // Calculate quantity (ensuring it's a whole number)
-        const quantity = Math.floor(positionValue / currentPriceData.close);
-        
-        // Skip if quantity is zero
-        if (quantity === 0) continue;
-        
-        // Create new position
-        const newTrade: Trade = {
-          symbol,
-          entryDate: currentDate,
-          entryPrice: currentPriceData.close,
-          quantity,
-          status: 'open'
-        };
-        
-        // Update cash
-        cash -= newTrade.entryPrice * newTrade.quantity;
-        
-        // Add to positions
-        positions.push(newTrade);
+      const close = candidate.history[candidate.index].close;
+      if (fillsNextBar) {
+        const value = getPositionSize(candidate.symbol, candidate.side, candidate.index, close, getEquity(i));
+        pendingEntries.push({ symbol: candidate.symbol, side: candidate.side, value });
+      } else {
+        openPosition(candidate.symbol, candidate.side, candidate.index, close, getEquity(i), i);
       }
     }
     
     // Calculate portfolio value for equity curve
-    const portfolioValue = positions.reduce(
-      (total, position) => {
-        const symbolPriceData = historicalDataBySymbol[position.symbol].find(
-          data => data.date === currentDate
-        );
-        
-        if (symbolPriceData) {
-          return total + symbolPriceData.close * position.quantity;
-        }
-        
-        return total;
-      },
-      cash
-    );
-    
     equityCurve.push({
       date: currentDate,
-      equity: portfolioValue
+      equity: getEquity(i)
     });
   }
   
   // Close any remaining open positions using the last available price
-  for (const position of positions) {
-    const symbol = position.symbol;
-    const lastPriceData = historicalDataBySymbol[symbol][historicalDataBySymbol[symbol].length - 1];
-    
-    position.exitDate = lastPriceData.date;
-    position.exitPrice = lastPriceData.close;
-    position.status = 'closed';
+  for (const position of [...positions]) {
+    const history = historicalDataBySymbol[position.symbol];
+    const lastIndex = history.length - 1;
     
-    // Calculate P&L
-    position.pnl = (position.exitPrice - position.entryPrice) * position.quantity;
-    position.pnlPercentage = ((position.exitPrice - position.entryPrice) / position.entryPrice) * 100;
-    
-    // Add to all trades
-    allTrades.push(position);
+    closePosition(position, lastIndex, history[lastIndex].close, 'endOfData');
   }
   
-  // Calculate performance metrics
-  const initialCapital = simulationConfig.initialCapital;
-  const finalCapital = equityCurve[equityCurve.length - 1]?.equity || initialCapital;
-  
-  const totalPnl = finalCapital - initialCapital;
-  const totalPnlPercentage = (totalPnl / initialCapital) * 100;
-  
-  const winningTrades = allTrades.filter(trade => (trade.pnl || 0) > 0).length;
-  const totalTrades = allTrades.length;
-  const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-  
-  // Calculate drawdowns
-  const drawdowns: Array<{ date: string; drawdown: number }> = [];
-  let peak = initialCapital;
-  
-  for (const point of equityCurve) {
-    if (point.equity > peak) {
-      peak = point.equity;
-    }
-    
-    const drawdown = ((peak - point.equity) / peak) * 100;
-    drawdowns.push({
-      date: point.date,
-      drawdown
-    });
+  // Those closes pay commission and slippage like any other exit, so the final
+  // equity is the cash they leave, which agrees with the closed trades
+  if (equityCurve.length > 0) {
+    equityCurve[equityCurve.length - 1].equity = cash;
   }
   
-  // Calculate max drawdown
-  const maxDrawdown = Math.max(...drawdowns.map(d => d.drawdown), 0);
-  
-  // Calculate average trade
-  const averageTrade = totalTrades > 0
-    ? allTrades.reduce((sum, trade) => sum + (trade.pnlPercentage || 0), 0) / totalTrades
-    : 0;
-  
-  // Calculate profit factor
-  const grossProfit = allTrades
-    .filter(trade => (trade.pnl || 0) > 0)
-    .reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-  
-  const grossLoss = Math.abs(
-    allTrades
-      .filter(trade => (trade.pnl || 0) < 0)
-      .reduce((sum, trade) => sum + (trade.pnl || 0), 0)
+  // Buy-and-hold benchmark over the same days
+  const benchmarkCurve = getBenchmarkCurve(
+    simulationConfig.benchmark,
+    benchmarkDataBySymbol,
+    universe.symbols,
+    allDates,
+    simulationConfig.initialCapital
   );
   
-  const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0;
-  
-  // Return simulation results
+  // Calculate performance metrics
   return {
-    totalPnl,
-    totalPnlPercentage,
-    winRate,
+    ...calculatePerformance(
+      simulationConfig.initialCapital,
+      equityCurve,
+      allTrades,
+      simulationConfig.riskFreeRate,
+      benchmarkCurve,
+      calendar.tradingDaysPerYear
+    ),
     trades: allTrades,
     equityCurve,
-    drawdowns,
-    metrics: {
-      maxDrawdown,
-      averageTrade,
-      profitFactor,
-      totalTrades,
-      winningTrades,
-      losingTrades: totalTrades - winningTrades
-    }
+    benchmarkCurve,
+    dataSeed,
+    dataProvider,
+    symbols: universe.symbols,
+    rejectedSignals,
+    rejectedSignalCount
   };
 }
\ No newline at end of file
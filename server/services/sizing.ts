@@ -0,0 +1,107 @@
+import { getIndicatorValue } from './indicators';
+import { createExitState, getStopLevel } from './exits';
+import { PriceData, Trade, TradeSide, ExitRules, PositionSizing, SimulationConfig } from '../../types';
+
+const DEFAULT_ATR_PERIOD = 14;
+const DEFAULT_KELLY_FRACTION = 0.5;
+const DEFAULT_KELLY_LOOKBACK = 50;
+const DEFAULT_KELLY_MIN_TRADES = 20;
+
+// What the sizing models may look at when a position is opened
+export type SizingContext = {
+  symbol: string;
+  side: TradeSide;
+  price: number; // expected fill price
+  equity: number; // portfolio value as of the last close
+  history: PriceData[];
+  index: number; // the fill bar; only bars before it are used
+  exits: ExitRules; // exit rules for the side, for the initial stop distance
+  closedTrades: Trade[]; // trades closed so far in the run
+};
+
+// Indicators the sizing model computes, so their history can be warmed up
+export function getSizingLookbackBars(sizing: PositionSizing | undefined): number {
+  return sizing?.model === 'volatilityTarget' ? (sizing.atrPeriod || DEFAULT_ATR_PERIOD) + 1 : 0;
+}
+
+// Distance per share from the entry to the initial stop, if the exit rules set one
+function getStopDistance(context: SizingContext): number | undefined {
+  const trade: Trade = {
+    symbol: context.symbol,
+    side: context.side,
+    entryDate: context.history[context.index]?.date,
+    entryPrice: context.price,
+    quantity: 0,
+    status: 'open',
+  };
+
+  const stop = getStopLevel(context.exits, trade, createExitState(trade), context.history, context.index);
+  return stop && Math.abs(context.price - stop.price);
+}
+
+// Fraction of equity the Kelly criterion bets, f = W - (1 - W) / R, from the win
+// rate W and the ratio R of the average win to the average loss. Undefined
+// until the trades include both a win and a loss, as R is not known before.
+function getKellyFraction(trades: Trade[]): number | undefined {
+  const wins = trades.filter(trade => (trade.pnlPercentage || 0) > 0);
+  const losses = trades.filter(trade => (trade.pnlPercentage || 0) < 0);
+
+  if (wins.length === 0 || losses.length === 0) return undefined;
+
+  const averageWin = wins.reduce((sum, trade) => sum + trade.pnlPercentage!, 0) / wins.length;
+  const averageLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.pnlPercentage!, 0) / losses.length);
+  const winRate = wins.length / trades.length;
+
+  return Math.min(1, Math.max(0, winRate - (1 - winRate) / (averageWin / averageLoss)));
+}
+
+// Dollar value of a new position under the strategy's sizing model. Models that
+// cannot size a trade yet (no stop, indicators still warming up, too few trades
+// or no wins or no losses yet for Kelly) fall back to positionSize% of current equity.
+export function sizePosition(simulationConfig: SimulationConfig, context: SizingContext): number {
+  const sizing = simulationConfig.sizing;
+  const percentOfEquity = (simulationConfig.positionSize / 100) * context.equity;
+
+  switch (sizing?.model) {
+    case 'percentOfEquity':
+      return percentOfEquity;
+
+    case 'fixedAmount':
+      return sizing.amount ?? percentOfEquity;
+
+    case 'fixedRisk': {
+      const stopDistance = getStopDistance(context);
+      if (!stopDistance || sizing.riskPercent === undefined) return percentOfEquity;
+
+      const risk = (sizing.riskPercent / 100) * context.equity;
+      return (risk / stopDistance) * context.price;
+    }
+
+    case 'volatilityTarget': {
+      const atr = getIndicatorValue(
+        { indicator: 'atr', period: sizing.atrPeriod || DEFAULT_ATR_PERIOD },
+        context.history,
+        context.index - 1
+      );
+      if (!atr || sizing.riskPercent === undefined) return percentOfEquity;
+
+      const risk = (sizing.riskPercent / 100) * context.equity;
+      return (risk / atr) * context.price;
+    }
+
+    case 'kelly': {
+      const trades = context.closedTrades.slice(-(sizing.kellyLookback || DEFAULT_KELLY_LOOKBACK));
+      if (trades.length < (sizing.kellyMinTrades ?? DEFAULT_KELLY_MIN_TRADES)) return percentOfEquity;
+
+      const kellyFraction = getKellyFraction(trades);
+      if (kellyFraction === undefined) return percentOfEquity;
+
+      const fraction = sizing.kellyFraction ?? DEFAULT_KELLY_FRACTION;
+      return fraction * kellyFraction * context.equity;
+    }
+
+    case 'percentOfInitialCapital':
+    default:
+      return (simulationConfig.positionSize / 100) * simulationConfig.initialCapital;
+  }
+}
@@ -0,0 +1,50 @@
+import SymbolModel from '../models/Symbol';
+import { getAvailableSymbols, getSymbolMetadata } from './financeApi';
+import { SymbolMetadata } from '../../types';
+
+export type SymbolQuery = {
+  q?: string; // matched against the symbol and the name
+  sector?: string;
+  exchange?: string;
+  activeOn?: string; // yyyy-MM-dd: only symbols listed and not yet delisted on this date
+  limit?: number;
+};
+
+const METADATA_FIELDS = '-_id symbol name exchange sector industry currency lotSize listedDate delistedDate';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Fill an empty registry with the built-in mock symbols, so a fresh install has
+// something to pick from
+export async function seedSymbols(): Promise<void> {
+  if ((await SymbolModel.estimatedDocumentCount()) > 0) return;
+
+  const symbols = getAvailableSymbols()
+    .map(getSymbolMetadata)
+    .filter((metadata): metadata is SymbolMetadata => metadata !== undefined);
+  await SymbolModel.insertMany(symbols);
+}
+
+// Registry entries matching a query, in symbol order
+export async function findSymbols(query: SymbolQuery = {}): Promise<SymbolMetadata[]> {
+  const filter: Record<string, any> = {};
+
+  if (query.q) {
+    const pattern = new RegExp(escapeRegExp(query.q.trim()), 'i');
+    filter.$or = [{ symbol: pattern }, { name: pattern }];
+  }
+  if (query.sector) filter.sector = query.sector;
+  if (query.exchange) filter.exchange = query.exchange;
+  if (query.activeOn) {
+    filter.$and = [
+      { $or: [{ listedDate: { $exists: false } }, { listedDate: { $lte: query.activeOn } }] },
+      { $or: [{ delistedDate: { $exists: false } }, { delistedDate: { $gt: query.activeOn } }] },
+    ];
+  }
+
+  let search = SymbolModel.find(filter).sort({ symbol: 1 }).select(METADATA_FIELDS);
+  if (query.limit) search = search.limit(query.limit);
+  return search.lean<SymbolMetadata[]>();
+}
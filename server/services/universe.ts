@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import Watchlist from '../models/Watchlist';
+import { findSymbols } from './symbols';
+import type { MarketDataProvider } from './marketData';
+import { SimulationConfig, SymbolMetadata, UniverseSource } from '../../types';
+
+const UNIVERSE_SOURCES: UniverseSource[] = ['symbols', 'watchlist', 'all'];
+
+// The symbols a run scans, and whether each is listed on a given day
+export type ResolvedUniverse = {
+  symbols: string[];
+  isListed(symbol: string, date: string): boolean;
+};
+
+// Check a strategy's universe, returning a message if it is not valid
+export async function validateUniverse(simulationConfig?: Partial<SimulationConfig>): Promise<string | undefined> {
+  const universe = simulationConfig?.universe;
+  if (!universe) return undefined;
+
+  if (!UNIVERSE_SOURCES.includes(universe.source)) {
+    return `Unknown universe source '${universe.source}'`;
+  }
+  for (const key of ['sectors', 'exchanges'] as const) {
+    const names = universe[key];
+    if (names !== undefined && (!Array.isArray(names) || names.some(name => typeof name !== 'string'))) {
+      return `The universe ${key} must be a list of names`;
+    }
+  }
+  if (universe.source === 'watchlist') {
+    if (!mongoose.isValidObjectId(universe.watchlistId) || !(await Watchlist.exists({ _id: universe.watchlistId }))) {
+      return 'The universe watchlist was not found';
+    }
+  }
+
+  return undefined;
+}
+
+// Metadata for symbols: the registry's entry where there is one, else the
+// provider's. Without a database connection only the provider is asked.
+export async function getSymbolsMetadata(provider: MarketDataProvider, symbols: string[]): Promise<Map<string, SymbolMetadata>> {
+  const registered = mongoose.connection.readyState === 1 ? await findSymbols() : [];
+  const metadata = new Map(registered.map(entry => [entry.symbol, entry]));
+
+  await Promise.all(symbols.filter(symbol => !metadata.has(symbol)).map(async symbol => {
+    metadata.set(symbol, (await provider.getSymbolMetadata(symbol)) || { symbol });
+  }));
+
+  return metadata;
+}
+
+// Whether a value is one of the names in a filter; an empty filter matches anything
+function matchesFilter(names: string[] | undefined, value: string | undefined): boolean {
+  if (!names || names.length === 0) return true;
+  return value !== undefined && names.some(name => name.toLowerCase() === value.toLowerCase());
+}
+
+function isListedOn(metadata: SymbolMetadata, date: string): boolean {
+  return (!metadata.listedDate || metadata.listedDate <= date) && (!metadata.delistedDate || metadata.delistedDate > date);
+}
+
+// The symbols a universe draws from, before its filters. A watchlist is read
+// as it is now, so its changes apply from the next run.
+async function getUniverseCandidates(simulationConfig: SimulationConfig, provider: MarketDataProvider): Promise<string[]> {
+  const universe = simulationConfig.universe!;
+
+  if (universe.source === 'all') {
+    return provider.getSymbols();
+  }
+  if (universe.source === 'watchlist') {
+    const watchlist = await Watchlist.findById(universe.watchlistId);
+    if (!watchlist) {
+      throw new Error(`Watchlist '${universe.watchlistId}' not found`);
+    }
+    return watchlist.symbols;
+  }
+  return simulationConfig.symbols;
+}
+
+// Resolve a strategy's universe for a run from firstDate to lastDate
+// (yyyy-MM-dd). Without a universe the symbols list is scanned as it is, every
+// day; with one, symbols outside its filters or not listed at any point of the
+// run are dropped, and the rest are scanned only on days they are listed.
+export async function resolveUniverse(
+  simulationConfig: SimulationConfig,
+  provider: MarketDataProvider,
+  firstDate: string,
+  lastDate: string
+): Promise<ResolvedUniverse> {
+  const universe = simulationConfig.universe;
+
+  if (!universe) {
+    return { symbols: simulationConfig.symbols, isListed: () => true };
+  }
+
+  const candidates = await getUniverseCandidates(simulationConfig, provider);
+  const metadata = await getSymbolsMetadata(provider, candidates);
+
+  const symbols = candidates.filter(symbol => {
+    const entry = metadata.get(symbol)!;
+    return matchesFilter(universe.sectors, entry.sector)
+      && matchesFilter(universe.exchanges, entry.exchange)
+      && (!entry.listedDate || entry.listedDate <= lastDate)
+      && (!entry.delistedDate || entry.delistedDate > firstDate);
+  });
+
+  return {
+    symbols,
+    isListed: (symbol, date) => isListedOn(metadata.get(symbol)!, date),
+  };
+}
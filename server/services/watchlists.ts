@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import { DataImportError, parseCsv } from './dataImport';
+import { isValidSymbol } from './dataStore';
+import { DataImportIssue } from '../../types';
+
+// Header names a watchlist file's symbol column may have (case-insensitive)
+const SYMBOL_COLUMNS = ['symbol', 'symbols', 'ticker', 'tickers'];
+
+export type ParsedWatchlist = {
+  symbols: string[];
+  issues: DataImportIssue[];
+};
+
+// Read the symbols from a watchlist CSV: the symbol (or ticker) column if the
+// first row is a header naming one, otherwise the first column. Repeated
+// symbols are kept once; rows that are not valid symbols are collected as issues.
+export function parseWatchlistCsv(content: string, delimiter = ','): ParsedWatchlist {
+  const rows = parseCsv(content.replace(/^\uFEFF/, ''), delimiter);
+  if (rows.length === 0) {
+    throw new DataImportError('The file is empty');
+  }
+
+  const column = rows[0].findIndex(name => SYMBOL_COLUMNS.includes(name.trim().toLowerCase()));
+  const records = column === -1 ? rows : rows.slice(1);
+  const symbols: string[] = [];
+  const issues: DataImportIssue[] = [];
+
+  records.forEach((fields, index) => {
+    const symbol = (fields[Math.max(column, 0)] || '').trim().toUpperCase();
+
+    if (!isValidSymbol(symbol)) {
+      issues.push({ row: index + 1, message: `'${symbol}' is not a valid symbol` });
+    } else if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+  });
+
+  if (symbols.length === 0 && issues.length === 0) {
+    throw new DataImportError('The file contains no symbols');
+  }
+
+  return { symbols, issues };
+}
+
+// A new unguessable token for a watchlist's share link
+export function createShareToken(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
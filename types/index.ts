@@ -19,10 +19,144 @@ export type SimulationConfig = {
   symbols: string[];
   maxPositions: number;
   positionSize: number; // percentage of capital per position
+  fillModel?: FillModel; // defaults to sameBarClose
+  costs?: CostModel;
+  sizing?: PositionSizing; // defaults to positionSize% of the initial capital
+  riskFreeRate?: number; // annual %, for the Sharpe and Sortino ratios (default 0)
+  benchmark?: Benchmark;
+  dataSeed?: number; // seed for the synthetic market data; a new one is drawn per run if unset
+  priceModel?: PriceModel; // how the synthetic market data is generated (default randomWalk)
+  dataProvider?: string; // market data provider name; the server's configured provider if unset
+  calendar?: TradingCalendarName; // exchange calendar the strategy trades on (default NYSE)
+  universe?: Universe; // where the scanner looks for candidates (default the symbols list)
+  riskLimits?: RiskLimits;
 };
 
+// Portfolio limits an entry signal must pass besides maxPositions; signals that
+// break one are skipped and logged in the results' rejectedSignals. Exposures
+// are position market values as a percentage of equity, counting shorts at
+// their absolute value.
+export type RiskLimits = {
+  maxPositionsPerSymbol?: number; // open positions allowed in one symbol (default no limit)
+  maxSectorExposure?: number; // % of equity in one sector; symbols without a sector are not limited
+  maxGrossExposure?: number; // % of equity across all positions
+  maxCorrelation?: number; // highest daily-return correlation with any holding, -1 to 1
+  correlationLookback?: number; // bars of returns correlated (default 60)
+};
+
+export type RiskLimitRule = 'symbolLimit' | 'sectorExposure' | 'grossExposure' | 'correlation';
+
+// An entry signal a risk limit stopped
+export type RejectedSignal = {
+  date: string;
+  symbol: string;
+  side: TradeSide;
+  rule: RiskLimitRule;
+  reason: string;
+};
+
+// The symbols a strategy scans each day: its own symbols list, a watchlist, or
+// every symbol its market data provider serves. Any of these can be narrowed to
+// some sectors and exchanges. Only symbols listed on a day (per the symbol
+// registry) are scanned.
+export type Universe = {
+  source: UniverseSource;
+  watchlistId?: string; // for the 'watchlist' source
+  sectors?: string[];
+  exchanges?: string[];
+};
+
+export type UniverseSource = 'symbols' | 'watchlist' | 'all';
+
+// Exchange calendars with their own trading days, holidays and early closes
+export type TradingCalendarName = 'NYSE' | 'NSE' | 'LSE' | 'crypto';
+
+// Stochastic processes the synthetic market data can follow
+export type PriceModelName =
+  | 'randomWalk' // the original fixed-drift walk, ignoring the parameters below
+  | 'gbm' // geometric Brownian motion
+  | 'garch' // GBM with GARCH(1,1) volatility clustering
+  | 'jumpDiffusion' // GBM with Poisson-timed jumps (Merton)
+  | 'meanReversion'; // Ornstein-Uhlenbeck process on the log price
+
+// Rates and volatilities are annual percentages
+export type PriceModelSettings = {
+  model: PriceModelName;
+  drift?: number; // default 8
+  volatility?: number; // default 25; the long-run level for garch
+  garchAlpha?: number; // weight of the last shock (default 0.1)
+  garchBeta?: number; // persistence of the variance (default 0.85)
+  jumpIntensity?: number; // expected jumps per year (default 2)
+  jumpMean?: number; // mean jump size (default -8)
+  jumpVolatility?: number; // standard deviation of jump sizes (default 5)
+  meanReversionSpeed?: number; // rate of pull toward the mean price (default 5)
+  meanPrice?: number; // price reverted to (default the starting price)
+};
+
+export type PriceModel = PriceModelSettings & {
+  symbols?: Record<string, Partial<PriceModelSettings>>; // per-symbol overrides
+  correlation?: CorrelationModel;
+};
+
+// Correlates the daily shocks of the stochastic price models (not randomWalk)
+// through a market factor and one factor per sector. A symbol's shock is
+// marketLoading * market + sectorLoading * its sector + idiosyncratic noise.
+export type CorrelationModel = {
+  marketLoading?: number; // default 0.6
+  sectorLoading?: number; // default 0.4
+  // Correlations between the factors, keyed by 'market' and sector names;
+  // pairs left out are uncorrelated
+  factorCorrelations?: Record<string, Record<string, number>>;
+  sectors?: Record<string, string>; // symbol -> sector, overriding the built-in sectors
+  loadings?: Record<string, { market?: number; sector?: number }>; // per-symbol loadings
+};
+
+// What a strategy is compared against: buying and holding one symbol, or an
+// equal-weight buy-and-hold of the strategy's own symbols
+export type Benchmark =
+  | { type: 'symbol'; symbol: string }
+  | { type: 'equalWeight' };
+
+// How the size of each new position is chosen
+export type SizingModel =
+  | 'percentOfInitialCapital' // positionSize% of the initial capital
+  | 'percentOfEquity' // positionSize% of current equity
+  | 'fixedAmount' // a fixed dollar amount
+  | 'fixedRisk' // risk a percentage of equity between the entry and the initial stop
+  | 'volatilityTarget' // one ATR move equals a percentage of equity
+  | 'kelly'; // a fraction of the Kelly bet from the run's closed trades
+
+export type PositionSizing = {
+  model: SizingModel;
+  amount?: number; // $ per position, for fixedAmount
+  riskPercent?: number; // % of equity per trade, for fixedRisk and volatilityTarget
+  atrPeriod?: number; // for volatilityTarget (default 14)
+  kellyFraction?: number; // share of the full Kelly bet to take (default 0.5)
+  kellyLookback?: number; // most recent closed trades used (default 50)
+  kellyMinTrades?: number; // closed trades needed before Kelly applies (default 20)
+};
+
+// Trading costs; commission components are added together per order
+export type CostModel = {
+  commissionPerTrade?: number; // $ per order
+  commissionPerShare?: number; // $ per share
+  commissionPercent?: number; // % of order value
+  minCommission?: number; // $ minimum per order
+  slippageBps?: number; // basis points of price, charged against the trader
+  slippageModel?: 'fixed' | 'volatility'; // volatility: slippageBps per 1% daily volatility
+  volatilityLookback?: number; // bars used to measure volatility (default 20)
+};
+
+// When and at what price orders fill: at the close of the bar that signalled
+// them, or on the next bar at its open or an approximate VWAP
+export type FillModel = 'sameBarClose' | 'nextBarOpen' | 'nextBarVwap';
+
+// Direction of a position; trades saved before short selling are long
+export type TradeSide = 'long' | 'short';
+
 export type Trade = {
   symbol: string;
+  side?: TradeSide;
   entryDate: string;
   entryPrice: number;
   exitDate?: string;
@@ -31,6 +165,39 @@ export type Trade = {
   pnl?: number;
   pnlPercentage?: number;
   status: 'open' | 'closed';
+  exitReason?: ExitReason;
+  commission?: number; // entry and exit commissions, deducted from pnl
+  slippage?: number; // $ lost to slippage, already reflected in the fill prices
+};
+
+export type ExitReason =
+  | 'signal'
+  | 'stopLoss'
+  | 'takeProfit'
+  | 'trailingStop'
+  | 'breakEven'
+  | 'timeStop'
+  | 'endOfData';
+
+// Price-level exits held in sellConfig.exits (and sellConfig.cover.exits for
+// shorts); percentages are relative to the entry price, in the position's favour
+// or against it, so the same rules mirror for short positions
+export type ExitRules = {
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStop?: {
+    percent?: number; // percent behind the best close since entry
+    atrMultiple?: number; // ATRs behind the best close since entry
+    atrPeriod?: number;
+  };
+  maxHoldingDays?: number; // trading days
+  breakEven?: {
+    triggerPercent: number; // profit at which the stop moves to the entry price
+    offsetPercent?: number; // how far into profit past the entry price the stop is placed
+  };
+  // Which exit fills when a bar's range spans both the stop and the target:
+  // the stop (conservative, default), the target, or whichever is nearer the open
+  sameBarPriority?: 'stop' | 'target' | 'nearestToOpen';
 };
 
 export type SimulationResults = {
@@ -39,18 +206,123 @@ export type SimulationResults = {
   winRate: number;
   trades: Trade[];
   equityCurve: Array<{ date: string; equity: number }>;
+  benchmarkCurve?: Array<{ date: string; equity: number }>; // same dates as equityCurve
+  dataSeed?: number; // seed the run's market data was generated from
+  dataProvider?: string; // market data provider the run read its bars from
+  symbols?: string[]; // the universe the run scanned
+  rejectedSignals?: RejectedSignal[]; // the first 1000, in date order
+  rejectedSignalCount?: number; // all signals the risk limits rejected
   drawdowns: Array<{ date: string; drawdown: number }>;
   metrics: {
     sharpeRatio?: number;
+    sortinoRatio?: number;
+    calmarRatio?: number;
+    cagr?: number; // %
+    annualizedVolatility?: number; // %
     maxDrawdown: number;
     averageTrade: number;
     profitFactor?: number;
     totalTrades: number;
     winningTrades: number;
     losingTrades: number;
+    exposure?: number; // % of days with a position open
+    averageHoldingDays?: number; // trading days
+    longestWinStreak?: number;
+    longestLossStreak?: number;
+    expectancy?: number; // average $ result per trade
+    payoffRatio?: number; // average win / average loss
+    alpha?: number; // annualized %, against the benchmark
+    beta?: number;
+    trackingError?: number; // annualized %
+    informationRatio?: number;
+    upCapture?: number; // %
+    downCapture?: number; // %
+    totalCommission?: number;
+    totalSlippage?: number;
+    totalCosts?: number;
   };
 };
 
+export type PriceSource = 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export type IndicatorName =
+  | 'price'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'volume'
+  | 'priceChange'
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'atr'
+  | 'stochastic'
+  | 'roc';
+
+// An indicator and its parameters, e.g. { indicator: 'sma', period: 50 }
+export type IndicatorSpec = {
+  indicator: IndicatorName;
+  period?: number;
+  source?: PriceSource; // series the indicator is computed over (default close)
+  fastPeriod?: number; // macd
+  slowPeriod?: number; // macd
+  signalPeriod?: number; // macd
+  stdDev?: number; // bollinger
+  kPeriod?: number; // stochastic
+  dPeriod?: number; // stochastic
+  output?: 'line' | 'signal' | 'histogram' | 'upper' | 'middle' | 'lower' | 'k' | 'd';
+};
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | 'crossesAbove' | 'crossesBelow';
+
+// Compares an indicator against either a literal value or another indicator,
+// e.g. { indicator: 'close', operator: 'crossesAbove', compareTo: { indicator: 'sma', period: 50 } }
+export type Condition = IndicatorSpec & {
+  operator: ComparisonOperator;
+  value?: number;
+  compareTo?: IndicatorSpec;
+};
+
+// Fixed percentage exits relative to the entry price, e.g. { type: 'stopLoss', value: 5 }
+export type StopCondition = {
+  type: 'stopLoss' | 'takeProfit';
+  value: number;
+};
+
+// Recursive condition tree used by scanner, buy and sell configs
+export type ConditionNode =
+  | Condition
+  | StopCondition
+  | { all: ConditionNode[] }
+  | { any: ConditionNode[] }
+  | { not: ConditionNode };
+
+// Scanner/buy/sell configs hold a `rules` tree, optionally with the
+// `expression` text it was compiled from; `conditions` is the legacy flat list
+export type RuleConfig = {
+  rules?: ConditionNode;
+  expression?: string;
+  conditions?: ConditionNode[];
+};
+
+// Short selling rules live beside the long rules: buyConfig.short holds the
+// short-entry rules and sellConfig.cover the short-cover rules and exits
+export type ShortEntryConfig = RuleConfig;
+
+// How buyConfig.rankBy orders a day's entry candidates when there are more of
+// them than free position slots
+export type RankMetric = 'rsi' | 'momentum' | 'volatility' | 'relativeVolume';
+
+export type RankBy = {
+  metric: RankMetric;
+  period?: number; // bars the metric is measured over (rsi 14, others 20)
+  order?: 'desc' | 'asc'; // best first; defaults to highest first, lowest for volatility
+};
+export type ShortCoverConfig = RuleConfig & { exits?: ExitRules };
+
 export type StrategyStatus = 'saved' | 'in_progress' | 'completed';
 
 export type PriceData = {
@@ -60,4 +332,59 @@ export type PriceData = {
   close: number;
   low: number;
   volume: number;
-};
\ No newline at end of file
+};
+// Options for importing end-of-day bars from a CSV or JSON file
+export type DataImportFormat = 'csv' | 'json';
+
+// Which column (CSV header or JSON property) holds each bar field. Unmapped
+// fields default to their own name, matched case-insensitively.
+export type ColumnMapping = Partial<Record<keyof PriceData | 'symbol', string>>;
+
+export type DataImportOptions = {
+  format: DataImportFormat;
+  symbol?: string; // symbol for every row; required unless a symbol column is mapped
+  columns?: ColumnMapping;
+  dateFormat?: string; // date-fns pattern of the date column (default yyyy-MM-dd)
+  delimiter?: string; // CSV field separator (default ,)
+  mode?: 'merge' | 'replace'; // how the bars combine with data already imported (default merge)
+};
+
+// A row that failed validation, numbered from 1 (after any CSV header)
+export type DataImportIssue = {
+  row: number;
+  message: string;
+};
+
+// A symbol with imported data and the range it covers
+export type ImportedSymbol = {
+  symbol: string;
+  firstDate: string;
+  lastDate: string;
+  bars: number;
+};
+
+// Descriptive details of a symbol, as kept in the symbols registry or as far
+// as its data provider knows them
+export type SymbolMetadata = {
+  symbol: string;
+  name?: string;
+  exchange?: string;
+  sector?: string;
+  industry?: string;
+  currency?: string;
+  lotSize?: number; // smallest tradable quantity (default 1)
+  listedDate?: string; // yyyy-MM-dd
+  delistedDate?: string; // yyyy-MM-dd
+};
+
+// A named list of symbols strategies can scan. Anyone with the share token can
+// view a shared watchlist and save a copy of it.
+export type Watchlist = {
+  _id?: string;
+  name: string;
+  description?: string;
+  symbols: string[];
+  shareToken?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};